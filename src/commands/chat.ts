@@ -0,0 +1,286 @@
+import * as readline from 'readline';
+import { ModelMessage } from 'ai';
+
+import { CliStyle } from '../utils/cli-style';
+import { getContextStrategy } from '../utils/config-manager';
+import { getRequestContextLimit } from '../utils/network';
+import { getFileContextBlocks } from '../core/file-context';
+import { createUserPrompt } from '../constants/prompts';
+import {
+  applyContextBudget,
+  buildRequestMessages
+} from '../core/context-budget';
+import {
+  createTurnMessages,
+  processAiResponse,
+  requestAiResponse,
+  resolveSystemPrompt,
+  resolveTemperature
+} from '../core/main-processor';
+import { RejectedHunk } from '../core/hunk-reviewer';
+
+/**
+ * 交互式对话会话的选项。
+ */
+export interface ChatSessionOptions {
+  model?: string;
+  temperature?: number;
+  autoApply?: boolean;
+  systemPrompt?: string;
+  /** 上下文 token 上限，覆盖配置中模型的上限。 */
+  maxContext?: number;
+}
+
+/**
+ * 对话中已完成的一轮。
+ */
+interface ChatTurn {
+  /** 上下文裁剪时显示的名称。 */
+  id: string;
+  /** 本轮保存的历史记录 ID，作为新记录的上下文；未保存时为 undefined。 */
+  historyId?: string;
+  messages: ModelMessage[];
+}
+
+/**
+ * 对话会话的可变状态。
+ */
+interface ChatSessionState {
+  /** 已完成的对话轮次，从旧到新。 */
+  turns: ChatTurn[];
+  contextFiles: string[];
+}
+
+const CHAT_HELP = `可用命令:
+  /add <files...>     添加上下文文件（支持 glob 和行号范围，如 "src/**" 或 "a.ts:10-20"）
+  /remove <files...>  移除上下文文件（/remove all 移除全部）
+  /files              列出当前上下文文件
+  /clear              清空对话历史（保留上下文文件）
+  /help               显示帮助
+  /exit               退出会话（也可使用 Ctrl+D）`;
+
+/**
+ * 从终端读取一行输入。每次调用都会创建并关闭 readline 接口，避免与 inquirer 冲突。
+ * @param prompt - 输入提示。
+ * @returns 用户输入；如果输入流关闭（Ctrl+D）则返回 null。
+ */
+function readLine(prompt: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+    let answered = false;
+    rl.question(prompt, (answer) => {
+      answered = true;
+      rl.close();
+      resolve(answer);
+    });
+    rl.on('close', () => {
+      if (!answered) {
+        process.stdout.write('\n');
+        resolve(null);
+      }
+    });
+  });
+}
+
+/**
+ * 处理以 / 开头的会话命令。
+ * @param input - 用户输入的命令行。
+ * @param state - 会话状态。
+ * @returns 如果应结束会话则返回 false。
+ */
+function handleSlashCommand(input: string, state: ChatSessionState): boolean {
+  const [command, ...args] = input.slice(1).trim().split(/\s+/);
+
+  switch (command) {
+    case 'exit':
+    case 'quit':
+      return false;
+
+    case 'add':
+      if (args.length === 0) {
+        console.log(CliStyle.warning('用法: /add <files...>'));
+        break;
+      }
+      for (const file of args) {
+        if (!state.contextFiles.includes(file)) {
+          state.contextFiles.push(file);
+        }
+      }
+      console.log(
+        CliStyle.success(`当前上下文文件: ${state.contextFiles.join(', ')}`)
+      );
+      break;
+
+    case 'remove':
+    case 'rm':
+      if (args.length === 0) {
+        console.log(CliStyle.warning('用法: /remove <files...>'));
+        break;
+      }
+      if (args.length === 1 && args[0] === 'all') {
+        state.contextFiles = [];
+      } else {
+        const missing = args.filter((f) => !state.contextFiles.includes(f));
+        if (missing.length > 0) {
+          console.log(
+            CliStyle.warning(`不在上下文中，忽略: ${missing.join(', ')}`)
+          );
+        }
+        state.contextFiles = state.contextFiles.filter(
+          (f) => !args.includes(f)
+        );
+      }
+      console.log(
+        CliStyle.success(
+          `当前上下文文件: ${state.contextFiles.join(', ') || '(无)'}`
+        )
+      );
+      break;
+
+    case 'files':
+      if (state.contextFiles.length === 0) {
+        console.log(CliStyle.muted('当前没有上下文文件。'));
+      } else {
+        state.contextFiles.forEach((file, index) => {
+          console.log(`${index + 1}. ${CliStyle.filePath(file)}`);
+        });
+      }
+      break;
+
+    case 'clear':
+      state.turns = [];
+      console.log(CliStyle.success('对话历史已清空。'));
+      break;
+
+    case 'help':
+      console.log(CliStyle.info(CHAT_HELP));
+      break;
+
+    default:
+      console.log(
+        CliStyle.warning(`未知命令: /${command}。输入 /help 查看帮助。`)
+      );
+      break;
+  }
+  return true;
+}
+
+/**
+ * 启动交互式多轮对话会话。
+ * 每轮对话都会重新读取上下文文件，AI提出的计划会就地审查执行，并写入历史记录以支持撤销。
+ * 发送前按上下文上限估算和裁剪，超出上限时从最早的对话轮次开始移除。
+ * @param files - 初始上下文文件。
+ * @param options - 会话选项。
+ */
+export async function startChatSession(
+  files: string[],
+  options: ChatSessionOptions = {}
+): Promise<void> {
+  const systemPrompt = await resolveSystemPrompt(options.systemPrompt);
+  const temperature = await resolveTemperature(options.temperature);
+  const contextLimit =
+    options.maxContext ?? (await getRequestContextLimit(options.model));
+  const contextStrategy = await getContextStrategy();
+  const state: ChatSessionState = {
+    turns: [],
+    contextFiles: [...new Set(files)]
+  };
+
+  console.log(
+    CliStyle.success('\n--- MAI 对话模式 ---') +
+      CliStyle.muted('  输入 /help 查看命令，/exit 退出。')
+  );
+  if (state.contextFiles.length > 0) {
+    console.log(CliStyle.info(`上下文文件: ${state.contextFiles.join(', ')}`));
+  }
+
+  while (true) {
+    const input = await readLine(CliStyle.prompt('\n> '));
+    if (input === null) break;
+
+    const userPrompt = input.trim();
+    if (!userPrompt) continue;
+
+    if (userPrompt.startsWith('/')) {
+      if (!handleSlashCommand(userPrompt, state)) break;
+      continue;
+    }
+
+    try {
+      // 每轮重新读取文件，确保 AI 看到已应用计划后的最新内容
+      const fileBlocks =
+        state.contextFiles.length > 0
+          ? await getFileContextBlocks(state.contextFiles)
+          : [];
+
+      // 裁剪只影响本轮请求，会话中的对话历史保持不变
+      const context = applyContextBudget(
+        {
+          systemPrompt,
+          historyTurns: state.turns,
+          userPrompt: createUserPrompt(userPrompt),
+          fileBlocks
+        },
+        contextLimit,
+        contextStrategy
+      );
+      const messages = buildRequestMessages(context);
+      const parentIds = state.turns
+        .filter((turn) => context.historyTurns.includes(turn))
+        .flatMap((turn) => (turn.historyId ? [turn.historyId] : []));
+
+      const {
+        response: aiResponse,
+        model,
+        usage,
+        latencyMs
+      } = await requestAiResponse(messages, options.model, temperature);
+
+      // 无论计划执行是否成功都记录本轮对话，使 AI 能看到自己之前的输出；计划经过修复时记录修复后的响应
+      let finalResponse = aiResponse;
+      let applied: boolean | undefined;
+      let rejectedHunks: RejectedHunk[] | undefined;
+      let historyId: string | undefined;
+      try {
+        ({ applied, rejectedHunks, historyId } = await processAiResponse(
+          aiResponse,
+          userPrompt,
+          options.autoApply,
+          [...state.contextFiles],
+          {
+            messages,
+            model,
+            temperature,
+            parentIds,
+            usage,
+            latencyMs,
+            streamed: true,
+            onRepaired: (response) => (finalResponse = response)
+          }
+        ));
+      } finally {
+        state.turns.push({
+          id: historyId ?? `对话第 ${state.turns.length + 1} 轮`,
+          historyId,
+          messages: createTurnMessages(
+            userPrompt,
+            finalResponse,
+            applied,
+            rejectedHunks
+          )
+        });
+      }
+    } catch (error) {
+      console.error(
+        CliStyle.error(
+          `本轮对话失败: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  console.log(CliStyle.info('对话结束。'));
+}
@@ -3,12 +3,24 @@ import * as os from 'os';
 import * as path from 'path';
 
 import { CliStyle } from '../utils/cli-style';
+import {
+  resolveDiffCommand,
+  resolveEditorCommand
+} from '../utils/editor-utils';
 import {
   ConfigOption,
+  getAutoRepairMaxRounds,
   getAvailableModels,
   getConfigurableOptions,
+  getContextLimit,
+  getContextStrategy,
   getCurrentModel,
+  getFallbackModels,
+  getFuzzyMatchEnabled,
+  getGitConfig,
   getHistoryDepth,
+  getHistoryRetention,
+  getMaxRetries,
   getSystemPrompt,
   getTemperature,
   loadConfig,
@@ -29,6 +41,16 @@ export async function listConfig(): Promise<void> {
     const systemPrompt = await getSystemPrompt();
     const historyDepth = await getHistoryDepth();
     const temperature = await getTemperature();
+    const autoRepairMaxRounds = await getAutoRepairMaxRounds();
+    const fuzzyMatch = await getFuzzyMatchEnabled();
+    const editorCommand = await resolveEditorCommand();
+    const diffCommand = await resolveDiffCommand();
+    const gitConfig = await getGitConfig();
+    const historyRetention = await getHistoryRetention();
+    const maxRetries = await getMaxRetries();
+    const fallbackModels = await getFallbackModels();
+    const contextLimit = await getContextLimit(currentModel);
+    const contextStrategy = await getContextStrategy();
 
     const parsedModel = await parseModel(currentModel);
     const modelDisplay = parsedModel
@@ -38,8 +60,25 @@ export async function listConfig(): Promise<void> {
     console.log(CliStyle.info('\n--- 当前配置 ---'));
 
     console.log(`模型: ${CliStyle.success(modelDisplay)}`);
+    console.log(
+      `备用模型: ${fallbackModels.length > 0 ? fallbackModels.join(', ') : '无'}`
+    );
+    console.log(`请求重试次数: ${maxRetries}`);
+    console.log(
+      `上下文上限: ${contextLimit ? `${contextLimit} tokens (超出时: ${contextStrategy})` : '未配置'}`
+    );
     console.log(`历史深度: ${historyDepth ?? '0 (默认)'}`);
+    console.log(
+      `历史记录保留: ${historyRetention.maxEntries || '不限'} 条 / ${historyRetention.maxAgeDays ? `${historyRetention.maxAgeDays} 天` : '不限时间'}`
+    );
     console.log(`Temperature: ${temperature}`);
+    console.log(`自动修复轮次上限: ${autoRepairMaxRounds}`);
+    console.log(`模糊匹配: ${fuzzyMatch ? '启用' : '未启用'}`);
+    console.log(`编辑器命令: ${editorCommand}`);
+    console.log(`差异工具命令: ${diffCommand}`);
+    console.log(
+      `Git 集成: ${gitConfig.mode}${gitConfig.mode === 'off' ? '' : ` (未提交更改: ${gitConfig.dirtyTree})`}`
+    );
 
     if (systemPrompt) {
       console.log(
@@ -135,6 +174,13 @@ export async function directSetConfig(
           `无效的选择值 for ${key}: ${value}。可用选项: ${option.options.join(', ')}`
         );
       }
+    } else if (option.type === 'boolean') {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(
+          `无效的布尔值 for ${key}: ${value}。可用值: true, false`
+        );
+      }
+      convertedValue = value === 'true';
     } // text 类型直接用字符串
 
     await option.setter(convertedValue);
@@ -1,19 +1,43 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import inquirer from 'inquirer';
 
 import { CliStyle } from '../utils/cli-style';
 import { reviewAndExecutePlan } from '../core/plan-reviewer';
 import { AiOperation, FileOperation } from '../core/operation-schema';
 import { startDelimiter, endDelimiter } from '../core/operation-definitions';
-import * as os from 'os';
-import { MAI_CONFIG_DIR_NAME, HISTORY_FILE_NAME } from '../constants/mai-data';
-
-/**
- * 获取历史记录文件路径。
- */
-export function getHistoryFile() {
-  return path.join(os.homedir(), MAI_CONFIG_DIR_NAME, HISTORY_FILE_NAME);
-}
+import { formatRejectedHunks, RejectedHunk } from '../core/hunk-reviewer';
+import {
+  applyDriftResolutions,
+  DriftedFile,
+  findRedoDrift,
+  findUndoDrift,
+  getAppliedOperations,
+  getOriginalFiles,
+  resolveDrift
+} from '../core/history-drift';
+import { showPlanDiff } from '../core/plan-preview';
+import {
+  getTouchedPaths,
+  PlanSnapshot,
+  removeCreatedDirs
+} from '../core/plan-executor';
+import {
+  applyRetention,
+  loadEntryContents,
+  migrateHistoryStores,
+  pruneHistoryStores,
+  readAllProjectHistories,
+  readProjectHistory,
+  rebaseEntry,
+  updateProjectHistory
+} from '../core/history-store';
+import { findGitRoot, hashContent, hashFile } from '../utils/file-utils';
+import {
+  getHistoryRetention,
+  getModelPrices,
+  ModelPrice
+} from '../utils/config-manager';
+import { TokenUsage } from '../utils/network';
+import { commitExists, getGitRoot, revertCommit } from '../utils/git-utils';
 
 /**
  * 历史记录条目接口。
@@ -27,8 +51,47 @@ export interface HistoryEntry {
   aiResponse?: string;
   operations: AiOperation[]; // 使用新的 operations 字段，包含所有操作类型
   originalFileContents?: Record<string, string>; // 存储操作前文件的原始内容，用于撤销
+  absentPaths?: string[]; // 操作前不存在的路径，撤销时删除；存在该字段表示记录了完整的操作前状态
+  createdDirs?: string[]; // 计划可能创建的目录（由深到浅），撤销时删除其中的空目录
   applied?: boolean; // 是否已应用结果
   files?: string[]; // 用户传递的文件列表，用于上下文
+  rejectedHunks?: RejectedHunk[]; // 逐块审查中被用户拒绝的更改
+  appliedOperations?: FileOperation[]; // 实际执行的文件操作（仅在与计划不同时记录，例如逐块审查后），用于重做和检测之后的修改
+  gitCommit?: string; // Git 集成模式下应用计划生成的提交 SHA，用于 git revert 撤销
+  resultFileHashes?: Record<string, string | null>; // 计划执行后各文件内容的哈希（null 表示不存在），用于检测之后的修改
+  model?: string; // 生成该响应的 AI 模型
+  temperature?: number; // 请求使用的 temperature
+  usage?: TokenUsage; // 请求（包括自动修复）的 token 用量
+  latencyMs?: number; // 请求（包括自动修复）的总耗时（毫秒）
+  tags?: string[]; // 用户添加的标签，用于搜索
+  parentIds?: string[]; // 作为对话上下文的历史记录 ID（按对话顺序），最后一个为直接延续的记录
+  contentRefs?: HistoryContentRefs; // 原始文件内容和 AI 响应在 blob 存储中的哈希，由 loadEntryContents 按需加载
+}
+
+/**
+ * 保存历史记录时的附加信息。
+ */
+export interface HistoryEntryDetails {
+  /** 用户传递的文件列表。 */
+  files?: string[];
+  /** 生成响应的 AI 模型。 */
+  model?: string;
+  /** 请求使用的 temperature。 */
+  temperature?: number;
+  /** 请求的 token 用量。 */
+  usage?: TokenUsage;
+  /** 请求耗时（毫秒）。 */
+  latencyMs?: number;
+  /** 作为对话上下文的历史记录 ID。 */
+  parentIds?: string[];
+}
+
+/**
+ * 历史记录中存放在 blob 存储中的内容的哈希引用。
+ */
+export interface HistoryContentRefs {
+  originalFileContents?: Record<string, string>;
+  aiResponse?: string;
 }
 
 /**
@@ -67,28 +130,44 @@ export function parseIdOrName(
 }
 
 /**
- * 加载历史记录。
- * @returns 历史记录条目数组。
+ * 加载当前项目（由 findGitRoot 确定）的历史记录。
+ * 只读取索引，文件内容和 AI 响应需通过 loadEntryContents 按需加载。
+ * @returns 按时间倒序排列的历史记录条目，路径已解析为绝对路径。
  */
 export async function loadHistory(): Promise<HistoryEntry[]> {
-  try {
-    const data = await fs.readFile(getHistoryFile(), 'utf-8');
-    return JSON.parse(data) as HistoryEntry[];
-  } catch {
-    return [];
-  }
+  await migrateHistoryStores();
+  return readProjectHistory(await findGitRoot());
 }
 
 /**
- * 保存历史记录。
- * @param history - 要保存的历史记录数组。
+ * 在文件锁的保护下读取、修改并保存当前项目的历史记录，多个 mai 进程并发修改时不会丢失记录。
+ * 只追加发生变化的条目。
+ * @param mutate - 修改函数，可直接修改传入的数组，或返回新的数组。
  */
-export async function saveHistory(history: HistoryEntry[]): Promise<void> {
-  await fs.writeFile(
-    getHistoryFile(),
-    JSON.stringify(history, null, 2),
-    'utf-8'
-  );
+export async function updateHistory(
+  mutate: (
+    history: HistoryEntry[]
+  ) => HistoryEntry[] | void | Promise<HistoryEntry[] | void>
+): Promise<void> {
+  await migrateHistoryStores();
+  await updateProjectHistory(await findGitRoot(), mutate);
+}
+
+/**
+ * 在文件锁的保护下修改当前项目中的单条历史记录。
+ * @param id - 历史ID。
+ * @param mutate - 修改函数，直接修改传入的条目。
+ */
+export async function updateHistoryEntry(
+  id: string,
+  mutate: (entry: HistoryEntry) => void | Promise<void>
+): Promise<void> {
+  await updateHistory(async (history) => {
+    const entry = history.find((h: HistoryEntry) => h.id === id);
+    if (entry) {
+      await mutate(entry);
+    }
+  });
 }
 
 /**
@@ -96,47 +175,112 @@ export async function saveHistory(history: HistoryEntry[]): Promise<void> {
  * @param entry - 要追加的历史记录条目。
  */
 export async function appendHistory(entry: HistoryEntry): Promise<void> {
-  const history = await loadHistory();
-  history.unshift(entry);
-  await saveHistory(history);
+  const retention = await getHistoryRetention();
+  await updateHistory((history) => {
+    history.unshift(entry);
+    const kept = applyRetention(history, retention);
+    if (kept.length < history.length) {
+      console.log(
+        CliStyle.muted(
+          `已按保留策略移除 ${history.length - kept.length} 条较早的历史记录。`
+        )
+      );
+    }
+    return kept;
+  });
 }
 
 /**
- * 列出所有历史记录。
- * @param filterFileOnly - 是否只显示包含文件操作的历史记录。
+ * 在其他项目的历史记录中按 ID 或名称查找条目，找到后导入当前项目。
+ * 相对路径按当前项目根目录解析，因此移动或重新克隆的仓库仍可撤销/重做。
+ * @param idOrName - 历史记录的 ID 或名称（不支持 ~n 索引）。
+ * @returns 导入的条目；未找到时返回 undefined。
  */
-export async function listHistory(
-  filterFileOnly: boolean = false
-): Promise<void> {
-  const history = await loadHistory();
-  if (history.length === 0) {
-    console.log(CliStyle.info('没有历史记录。'));
-    return;
-  }
+async function importFromOtherProject(
+  idOrName: string
+): Promise<HistoryEntry | undefined> {
+  if (/^~\d+$/.test(idOrName)) return undefined;
 
-  let displayHistory = history;
-  let noRecordsMsg = '没有历史记录。';
-  if (filterFileOnly) {
-    displayHistory = history.filter((entry) =>
-      entry.operations.some((op) => op.type !== 'response')
+  const root = await findGitRoot();
+  for (const project of await readAllProjectHistories()) {
+    if (project.root === root) continue;
+    const found = project.entries.find(
+      (h) => h.id === idOrName || h.name === idOrName
     );
-    noRecordsMsg = '没有包含文件操作的历史记录。';
+    if (!found) continue;
+
+    // 内容存放在共享的 blob 存储中，导入时只需转换路径
+    const entry = rebaseEntry(found, project.root, root);
+    await updateHistory((history) => {
+      if (history.some((h) => h.id === entry.id)) return;
+      const position = history.findIndex((h) => h.timestamp < entry.timestamp);
+      history.splice(position === -1 ? history.length : position, 0, entry);
+    });
+    console.log(
+      CliStyle.info(
+        `已从项目 ${project.root} 导入历史记录 ${idOrName}，路径将相对于当前项目解析。`
+      )
+    );
+    return entry;
   }
+  return undefined;
+}
 
-  if (displayHistory.length === 0) {
-    console.log(CliStyle.info(noRecordsMsg));
-    return;
+/**
+ * 解析撤销/重做的目标历史记录。当前项目中找不到时，按 ID 或名称在其他项目中查找并导入。
+ * @param idOrName - 历史记录的 ID、名称或索引。
+ * @param emptyMessage - 当前项目没有历史记录时的提示。
+ * @returns 历史记录条目及用于显示的标识；未找到时输出错误并返回 undefined。
+ */
+async function resolveTargetEntry(
+  idOrName: string,
+  emptyMessage: string
+): Promise<{ entry: HistoryEntry; displayId: string } | undefined> {
+  const history = await loadHistory();
+  try {
+    const { entry, index, isIndex } = parseIdOrName(idOrName, history);
+    return {
+      entry: await loadEntryContents(entry!),
+      displayId: isIndex ? `~${index! + 1}` : entry!.name || entry!.id
+    };
+  } catch (error) {
+    const imported = await importFromOtherProject(idOrName);
+    if (imported) {
+      return {
+        entry: await loadEntryContents(imported),
+        displayId: imported.name || imported.id
+      };
+    }
+    console.error(
+      CliStyle.error(history.length === 0 ? emptyMessage : String(error))
+    );
+    return undefined;
   }
+}
 
-  console.log(
-    CliStyle.success(`历史记录${filterFileOnly ? ' (仅包含文件操作)' : ''}:`)
-  );
-  console.log(
-    CliStyle.muted(
-      '使用 ~n 格式（如 ~1 表示最近一次，基于所有历史记录）来引用历史记录。'
-    )
-  );
+/**
+ * 筛选要显示的历史记录。
+ */
+function filterHistoryForDisplay(
+  history: HistoryEntry[],
+  filterFileOnly: boolean
+): HistoryEntry[] {
+  return filterFileOnly
+    ? history.filter((entry) =>
+        entry.operations.some((op) => op.type !== 'response')
+      )
+    : history;
+}
 
+/**
+ * 输出历史记录条目列表。
+ * @param history - 完整的历史记录，用于计算 ~n 索引。
+ * @param displayHistory - 要显示的条目。
+ */
+function printHistoryEntries(
+  history: HistoryEntry[],
+  displayHistory: HistoryEntry[]
+): void {
   displayHistory.forEach((entry, displayIndex) => {
     const originalIndex = history.indexOf(entry);
     const originalDisplayIndex = originalIndex + 1;
@@ -150,8 +294,8 @@ export async function listHistory(
       entry.applied === undefined
         ? ''
         : entry.applied
-        ? ' (已应用)'
-        : ' (未应用)';
+          ? ' (已应用)'
+          : ' (未应用)';
     console.log(
       `${CliStyle.info(
         `${
@@ -169,41 +313,728 @@ export async function listHistory(
         responseCount > 0 ? `+ ${responseCount} 响应` : ''
       }${fileOpCount === 0 ? ' (纯AI响应)' : ''}`
     );
+    if (entry.tags && entry.tags.length > 0) {
+      console.log(`   标签: ${CliStyle.muted(entry.tags.join(', '))}`);
+    }
     console.log();
   });
 }
 
 /**
- * 撤销指定的历史记录所做的更改。
- * @param idOrName - 要撤销的历史记录的 ID、名称或索引。
+ * 按项目列出所有项目的历史记录。
+ * @param filterFileOnly - 是否只显示包含文件操作的历史记录。
  */
-export async function undoHistory(idOrName: string): Promise<void> {
+async function listAllHistory(filterFileOnly: boolean): Promise<void> {
+  await migrateHistoryStores();
+  const currentRoot = await findGitRoot();
+  const projects = (await readAllProjectHistories())
+    .map((project) => ({
+      root: project.root,
+      history: project.entries,
+      displayHistory: filterHistoryForDisplay(project.entries, filterFileOnly)
+    }))
+    .filter((project) => project.displayHistory.length > 0);
+
+  if (projects.length === 0) {
+    console.log(
+      CliStyle.info(
+        filterFileOnly ? '没有包含文件操作的历史记录。' : '没有历史记录。'
+      )
+    );
+    return;
+  }
+
+  console.log(
+    CliStyle.success(
+      `所有项目的历史记录${filterFileOnly ? ' (仅包含文件操作)' : ''}:`
+    )
+  );
+  console.log(
+    CliStyle.muted(
+      '~n 索引仅在对应项目中有效；在其他位置可使用 ID 或名称撤销/重做（会导入到当前项目）。'
+    )
+  );
+  for (const project of projects) {
+    console.log(
+      CliStyle.success(
+        `\n项目: ${project.root}${project.root === currentRoot ? ' (当前项目)' : ''}`
+      )
+    );
+    printHistoryEntries(project.history, project.displayHistory);
+  }
+}
+
+/**
+ * 列出当前项目的历史记录。
+ * @param filterFileOnly - 是否只显示包含文件操作的历史记录。
+ * @param all - 是否列出所有项目的历史记录。
+ */
+export async function listHistory(
+  filterFileOnly: boolean = false,
+  all: boolean = false
+): Promise<void> {
+  if (all) {
+    await listAllHistory(filterFileOnly);
+    return;
+  }
+
   const history = await loadHistory();
   if (history.length === 0) {
-    console.error(CliStyle.error('没有历史记录可撤销。'));
+    console.log(CliStyle.info('没有历史记录。'));
     return;
   }
 
-  let entry: HistoryEntry;
-  let index: number | undefined;
-  let isIndex = false;
+  const displayHistory = filterHistoryForDisplay(history, filterFileOnly);
+  if (displayHistory.length === 0) {
+    console.log(CliStyle.info('没有包含文件操作的历史记录。'));
+    return;
+  }
 
+  console.log(
+    CliStyle.success(`历史记录${filterFileOnly ? ' (仅包含文件操作)' : ''}:`)
+  );
+  console.log(
+    CliStyle.muted(
+      '使用 ~n 格式（如 ~1 表示最近一次，基于所有历史记录）来引用历史记录。'
+    )
+  );
+  printHistoryEntries(history, displayHistory);
+}
+
+/**
+ * 历史记录的搜索条件。未设置的条件不参与筛选，多个条件需同时满足。
+ */
+export interface HistorySearchFilter {
+  /** 在提示、名称和描述中查找的文本（不区分大小写）。 */
+  query?: string;
+  /** 涉及的文件路径包含的文本。 */
+  file?: string;
+  /** 最早时间（含）。 */
+  since?: Date;
+  /** 最晚时间（含）。 */
+  until?: Date;
+  /** 模型名称包含的文本。 */
+  model?: string;
+  /** 应用状态。 */
+  applied?: boolean;
+  /** 需包含的全部标签。 */
+  tags?: string[];
+}
+
+/**
+ * 解析并加载用户指定的历史记录，失败时输出错误。
+ * @returns 历史记录条目及用于显示的标识；未找到时返回 undefined。
+ */
+async function findHistoryEntry(
+  idOrName: string
+): Promise<{ entry: HistoryEntry; displayId: string } | undefined> {
+  const history = await loadHistory();
   try {
-    const result = parseIdOrName(idOrName, history);
-    entry = result.entry!;
-    index = result.index;
-    isIndex = result.isIndex;
+    const { entry, index, isIndex } = parseIdOrName(idOrName, history);
+    return {
+      entry: entry!,
+      displayId: isIndex ? `~${index! + 1}` : entry!.name || entry!.id
+    };
   } catch (error) {
-    console.error(CliStyle.error(String(error)));
+    console.error(
+      CliStyle.error(history.length === 0 ? '没有历史记录。' : String(error))
+    );
+    return undefined;
+  }
+}
+
+/**
+ * 为历史记录设置名称，之后可通过名称引用（例如 -r、undo、show）。
+ * @param idOrName - 历史记录的 ID、名称或索引。
+ * @param name - 新名称；为空时清除名称。
+ */
+export async function nameHistory(
+  idOrName: string,
+  name?: string
+): Promise<void> {
+  const target = await findHistoryEntry(idOrName);
+  if (!target) return;
+  const { entry, displayId } = target;
+  const newName = name?.trim() || undefined;
+
+  if (newName !== undefined) {
+    // 名称不能与 ~n 索引、ID 或 -r 的逗号分隔格式混淆
+    if (/^~\d+$/.test(newName) || /^\d+$/.test(newName)) {
+      console.error(CliStyle.error('名称不能是纯数字或 ~n 格式。'));
+      return;
+    }
+    if (/[\s,]/.test(newName)) {
+      console.error(CliStyle.error('名称不能包含空白字符或逗号。'));
+      return;
+    }
+  }
+
+  let conflict: HistoryEntry | undefined;
+  await updateHistory((history) => {
+    conflict = newName
+      ? history.find((h) => h.name === newName && h.id !== entry.id)
+      : undefined;
+    if (conflict) return;
+    const current = history.find((h) => h.id === entry.id);
+    if (current) current.name = newName;
+  });
+
+  if (conflict) {
+    console.error(
+      CliStyle.error(`名称 ${newName} 已被历史记录 ${conflict.id} 使用。`)
+    );
+  } else if (newName) {
+    console.log(
+      CliStyle.success(`已将历史记录 ${displayId} 命名为 ${newName}`)
+    );
+  } else {
+    console.log(CliStyle.success(`已清除历史记录 ${displayId} 的名称。`));
+  }
+}
+
+/**
+ * 为历史记录添加或移除标签。
+ * @param idOrName - 历史记录的 ID、名称或索引。
+ * @param tags - 标签列表。
+ * @param remove - 是否移除这些标签。
+ */
+export async function tagHistory(
+  idOrName: string,
+  tags: string[],
+  remove: boolean = false
+): Promise<void> {
+  const target = await findHistoryEntry(idOrName);
+  if (!target) return;
+  const { entry, displayId } = target;
+  const normalized = tags.map((tag) => tag.trim()).filter(Boolean);
+  if (normalized.length === 0) {
+    console.error(CliStyle.error('请至少指定一个标签。'));
     return;
   }
 
-  const displayId = isIndex ? `~${index! + 1}` : entry.name || entry.id;
+  let result: string[] = [];
+  await updateHistoryEntry(entry.id, (current) => {
+    const existing = current.tags ?? [];
+    result = remove
+      ? existing.filter((tag) => !normalized.includes(tag))
+      : [...new Set([...existing, ...normalized])];
+    current.tags = result.length > 0 ? result : undefined;
+  });
   console.log(
-    CliStyle.process(`正在撤销: ${entry.description} (${displayId})`)
+    CliStyle.success(
+      `历史记录 ${displayId} 的标签: ${result.length > 0 ? result.join(', ') : '(无)'}`
+    )
   );
-  console.log(CliStyle.muted(`涉及 ${entry.operations.length} 个操作`));
+}
+
+/**
+ * 判断历史记录是否满足搜索条件。
+ */
+function matchesHistoryFilter(
+  entry: HistoryEntry,
+  filter: HistorySearchFilter
+): boolean {
+  const contains = (text: string | undefined, part: string) =>
+    (text ?? '').toLowerCase().includes(part.toLowerCase());
 
+  if (
+    filter.query &&
+    ![entry.prompt, entry.name, entry.description].some((text) =>
+      contains(text, filter.query!)
+    )
+  ) {
+    return false;
+  }
+  if (
+    filter.file &&
+    !entry.operations.some(
+      (op) =>
+        op.type !== 'response' &&
+        getTouchedPaths(op).some((filePath) => contains(filePath, filter.file!))
+    )
+  ) {
+    return false;
+  }
+  const time = Date.parse(entry.timestamp);
+  if (filter.since && time < filter.since.getTime()) return false;
+  if (filter.until && time > filter.until.getTime()) return false;
+  if (filter.model && !contains(entry.model, filter.model)) return false;
+  if (
+    filter.applied !== undefined &&
+    Boolean(entry.applied) !== filter.applied
+  ) {
+    return false;
+  }
+  if (filter.tags && !filter.tags.every((tag) => entry.tags?.includes(tag))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 按条件搜索历史记录。
+ * @param filter - 搜索条件。
+ * @param all - 是否搜索所有项目的历史记录。
+ */
+export async function searchHistory(
+  filter: HistorySearchFilter,
+  all: boolean = false
+): Promise<void> {
+  await migrateHistoryStores();
+  const currentRoot = await findGitRoot();
+  const projects = all
+    ? await readAllProjectHistories()
+    : [{ root: currentRoot, entries: await loadHistory() }];
+
+  let total = 0;
+  for (const project of projects) {
+    const matches = project.entries.filter((entry) =>
+      matchesHistoryFilter(entry, filter)
+    );
+    if (matches.length === 0) continue;
+    if (total === 0) {
+      console.log(CliStyle.success('搜索结果:'));
+    }
+    total += matches.length;
+    if (all) {
+      console.log(
+        CliStyle.success(
+          `\n项目: ${project.root}${project.root === currentRoot ? ' (当前项目)' : ''}`
+        )
+      );
+    }
+    printHistoryEntries(project.entries, matches);
+  }
+
+  console.log(
+    total === 0
+      ? CliStyle.info('没有匹配的历史记录。')
+      : CliStyle.muted(`共 ${total} 条匹配的历史记录。`)
+  );
+}
+
+/**
+ * 一组历史记录的用量汇总。
+ */
+interface UsageSummary {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** 记录了耗时的请求的总耗时（毫秒）。 */
+  latencyMs: number;
+  timedRequests: number;
+  /** 未记录 token 用量的请求数。 */
+  untracked: number;
+  cost: number;
+  /** 有用量但模型未配置价格的请求数。 */
+  unpriced: number;
+}
+
+/**
+ * 将历史记录的用量累加到汇总中。
+ */
+function addToSummary(
+  summaries: Map<string, UsageSummary>,
+  key: string,
+  entry: HistoryEntry,
+  prices: Record<string, ModelPrice>
+): void {
+  const summary = summaries.get(key) ?? {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: 0,
+    timedRequests: 0,
+    untracked: 0,
+    cost: 0,
+    unpriced: 0
+  };
+  summaries.set(key, summary);
+
+  summary.requests++;
+  if (entry.latencyMs !== undefined) {
+    summary.latencyMs += entry.latencyMs;
+    summary.timedRequests++;
+  }
+  if (!entry.usage) {
+    summary.untracked++;
+    return;
+  }
+  summary.inputTokens += entry.usage.inputTokens;
+  summary.outputTokens += entry.usage.outputTokens;
+  const price = entry.model ? prices[entry.model] : undefined;
+  if (price) {
+    summary.cost +=
+      (entry.usage.inputTokens * price.input +
+        entry.usage.outputTokens * price.output) /
+      1_000_000;
+  } else {
+    summary.unpriced++;
+  }
+}
+
+/**
+ * 格式化一行用量汇总。
+ */
+function formatSummary(label: string, summary: UsageSummary): string {
+  const parts = [
+    `${summary.requests} 次请求`,
+    `输入 ${summary.inputTokens.toLocaleString()} / 输出 ${summary.outputTokens.toLocaleString()} tokens`
+  ];
+  if (summary.timedRequests > 0) {
+    parts.push(
+      `平均耗时 ${(summary.latencyMs / summary.timedRequests / 1000).toFixed(1)}s`
+    );
+  }
+  if (summary.unpriced < summary.requests - summary.untracked) {
+    parts.push(`估算费用 ${summary.cost.toFixed(4)}`);
+  }
+  const notes = [
+    summary.untracked > 0 ? `${summary.untracked} 次未记录用量` : '',
+    summary.unpriced > 0 ? `${summary.unpriced} 次未配置价格` : ''
+  ].filter(Boolean);
+  return `  ${CliStyle.info(label)}: ${parts.join('，')}${
+    notes.length > 0 ? CliStyle.muted(` (${notes.join('，')})`) : ''
+  }`;
+}
+
+/**
+ * 获取时间戳对应的本地日期（YYYY-MM-DD）。
+ */
+function formatDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 汇总所有项目中 AI 请求的 token 用量、耗时和估算费用，按模型、日期和项目分别显示。
+ * 费用根据 providers 中各模型配置的 prices（每百万 token 的价格）估算。
+ * @param options - since/until 限定统计的时间范围。
+ */
+export async function showHistoryStats(
+  options: { since?: Date; until?: Date } = {}
+): Promise<void> {
+  await migrateHistoryStores();
+  const prices = await getModelPrices();
+  const byModel = new Map<string, UsageSummary>();
+  const byDay = new Map<string, UsageSummary>();
+  const byProject = new Map<string, UsageSummary>();
+  const total = new Map<string, UsageSummary>();
+
+  for (const project of await readAllProjectHistories()) {
+    for (const entry of project.entries) {
+      // 只统计 AI 请求；手动执行的计划没有模型和用量
+      if (!entry.model && !entry.usage) continue;
+      const time = new Date(entry.timestamp).getTime();
+      if (options.since && time < options.since.getTime()) continue;
+      if (options.until && time > options.until.getTime()) continue;
+
+      addToSummary(byModel, entry.model || '未记录', entry, prices);
+      addToSummary(byDay, formatDay(entry.timestamp), entry, prices);
+      addToSummary(byProject, project.root, entry, prices);
+      addToSummary(total, '合计', entry, prices);
+    }
+  }
+
+  if (total.size === 0) {
+    console.log(CliStyle.info('没有可统计的 AI 请求记录。'));
+    return;
+  }
+
+  const byRequests = (a: [string, UsageSummary], b: [string, UsageSummary]) =>
+    b[1].requests - a[1].requests;
+  const sections: Array<[string, Array<[string, UsageSummary]>]> = [
+    ['按模型', [...byModel].sort(byRequests)],
+    ['按日期', [...byDay].sort(([a], [b]) => a.localeCompare(b))],
+    ['按项目', [...byProject].sort(byRequests)]
+  ];
+
+  console.log(CliStyle.success('AI 请求用量统计 (所有项目):'));
+  for (const [title, rows] of sections) {
+    console.log(CliStyle.process(`\n${title}:`));
+    rows.forEach(([label, summary]) =>
+      console.log(formatSummary(label, summary))
+    );
+  }
+  console.log();
+  console.log(formatSummary('合计', total.get('合计')!));
+  if (Object.keys(prices).length === 0) {
+    console.log(
+      CliStyle.muted(
+        '\n未配置模型价格。可在 providers.<提供商>.prices 中按模型配置每百万 token 的 input/output 价格以估算费用。'
+      )
+    );
+  }
+}
+
+/**
+ * 显示单条历史记录的详细信息：完整提示、上下文文件、模型、AI 响应，
+ * 以及每个文件操作相对于执行前内容的差异。
+ * @param idOrName - 历史记录的 ID、名称或索引。
+ * @param options - raw 只输出原始 AI 响应（可直接用于 exec-plan 重放），json 以 JSON 输出完整记录。
+ */
+export async function showHistory(
+  idOrName: string,
+  options: { raw?: boolean; json?: boolean } = {}
+): Promise<void> {
+  const target = await findHistoryEntry(idOrName);
+  if (!target) return;
+  const { displayId } = target;
+  const entry = await loadEntryContents(target.entry);
+
+  if (options.json) {
+    const { contentRefs, ...details } = entry;
+    console.log(JSON.stringify(details, null, 2));
+    return;
+  }
+  if (options.raw) {
+    console.log(entry.aiResponse ?? '');
+    return;
+  }
+
+  const status =
+    entry.applied === undefined
+      ? '无文件操作'
+      : entry.applied
+        ? '已应用'
+        : '未应用';
+  console.log(CliStyle.success(`\n历史记录 ${displayId}`));
+  console.log(`ID: ${entry.id}${entry.name ? ` (名称: ${entry.name})` : ''}`);
+  console.log(`时间: ${new Date(entry.timestamp).toLocaleString()}`);
+  console.log(`描述: ${entry.description || 'N/A'}`);
+  console.log(`状态: ${status}`);
+  console.log(`模型: ${entry.model || CliStyle.muted('未记录')}`);
+  if (entry.temperature !== undefined) {
+    console.log(`Temperature: ${entry.temperature}`);
+  }
+  if (entry.usage) {
+    console.log(
+      `Token 用量: 输入 ${entry.usage.inputTokens} / 输出 ${entry.usage.outputTokens}`
+    );
+  }
+  if (entry.latencyMs !== undefined) {
+    console.log(`耗时: ${(entry.latencyMs / 1000).toFixed(1)}s`);
+  }
+  if (entry.tags && entry.tags.length > 0) {
+    console.log(`标签: ${entry.tags.join(', ')}`);
+  }
+  if (entry.gitCommit) {
+    console.log(`Git 提交: ${entry.gitCommit}`);
+  }
+  if (entry.parentIds && entry.parentIds.length > 0) {
+    console.log(`上下文记录: ${entry.parentIds.join(', ')}`);
+  }
+
+  console.log(CliStyle.info('\n--- 提示 ---'));
+  console.log(entry.prompt);
+
+  console.log(CliStyle.info('\n--- 上下文文件 ---'));
+  if (entry.files && entry.files.length > 0) {
+    entry.files.forEach((file) => console.log(CliStyle.filePath(file)));
+  } else {
+    console.log(CliStyle.muted('(无)'));
+  }
+
+  console.log(CliStyle.info('\n--- AI 响应 ---'));
+  const responseOps = entry.operations.filter((op) => op.type === 'response');
+  const fileOps = entry.operations.filter(
+    (op): op is FileOperation => op.type !== 'response'
+  );
+  if (responseOps.length > 0) {
+    responseOps.forEach((op) => {
+      if (op.comment) {
+        console.log(CliStyle.comment(`说明: ${op.comment}`));
+      }
+      console.log(CliStyle.markdown(op.content));
+    });
+  } else if (fileOps.length === 0 && entry.aiResponse?.trim()) {
+    console.log(CliStyle.markdown(entry.aiResponse.trim()));
+  } else {
+    console.log(CliStyle.muted('(无说明文本，可使用 --raw 查看原始响应)'));
+  }
+
+  if (fileOps.length > 0) {
+    if (entry.absentPaths === undefined) {
+      console.log(
+        CliStyle.muted(
+          '\n该记录未保存完整的执行前状态，未备份的文件按不存在处理。'
+        )
+      );
+    }
+    await showPlanDiff(fileOps, getOriginalFiles(entry));
+  }
+
+  if (entry.rejectedHunks && entry.rejectedHunks.length > 0) {
+    console.log(CliStyle.info('--- 被拒绝的更改 ---'));
+    console.log(formatRejectedHunks(entry.rejectedHunks));
+  }
+}
+
+/**
+ * 获取历史记录在对话树中的父记录，即最后一个仍存在的上下文记录。
+ */
+function getTreeParent(
+  entry: HistoryEntry,
+  byId: Map<string, HistoryEntry>
+): HistoryEntry | undefined {
+  const parentIds = entry.parentIds ?? [];
+  for (let i = parentIds.length - 1; i >= 0; i--) {
+    const parent = byId.get(parentIds[i]);
+    if (parent && parent !== entry) return parent;
+  }
+  return undefined;
+}
+
+/**
+ * 以树的形式显示历史记录之间的对话关系。每条记录显示在其直接延续的记录之下，
+ * 同时引用的其他记录显示在"另引用"中。
+ * @param idOrName - 可选，只显示该记录所在的对话树并标记该记录。
+ */
+export async function showHistoryTree(idOrName?: string): Promise<void> {
+  const history = await loadHistory();
+  if (history.length === 0) {
+    console.log(CliStyle.info('没有历史记录。'));
+    return;
+  }
+
+  const byId = new Map(history.map((entry) => [entry.id, entry]));
+  const getDisplayId = (id: string) => {
+    const entry = byId.get(id);
+    return entry ? `~${history.indexOf(entry) + 1}` : `${id} (已删除)`;
+  };
+
+  // 从旧到新建立子记录列表
+  const children = new Map<string, HistoryEntry[]>();
+  const roots: HistoryEntry[] = [];
+  for (const entry of history.slice().reverse()) {
+    const parent = getTreeParent(entry, byId);
+    if (parent) {
+      children.set(parent.id, [...(children.get(parent.id) ?? []), entry]);
+    } else {
+      roots.push(entry);
+    }
+  }
+
+  let target: HistoryEntry | undefined;
+  let displayRoots = roots;
+  if (idOrName) {
+    try {
+      target = parseIdOrName(idOrName, history).entry!;
+    } catch (error) {
+      console.error(CliStyle.error(String(error)));
+      return;
+    }
+    let root = target;
+    const seen = new Set<string>();
+    while (!seen.has(root.id)) {
+      seen.add(root.id);
+      const parent = getTreeParent(root, byId);
+      if (!parent) break;
+      root = parent;
+    }
+    displayRoots = [root];
+  }
+
+  const formatLabel = (entry: HistoryEntry) => {
+    const status =
+      entry.applied === undefined
+        ? ''
+        : entry.applied
+          ? ' (已应用)'
+          : ' (未应用)';
+    const prompt =
+      entry.prompt.substring(0, 40) + (entry.prompt.length > 40 ? '...' : '');
+    // 树中的祖先记录已体现在结构中，只显示其他引用
+    const ancestors = new Set<string>();
+    for (
+      let parent = getTreeParent(entry, byId);
+      parent && !ancestors.has(parent.id);
+      parent = getTreeParent(parent, byId)
+    ) {
+      ancestors.add(parent.id);
+    }
+    const others = (entry.parentIds ?? [])
+      .filter((id) => !ancestors.has(id))
+      .map(getDisplayId);
+    return [
+      CliStyle.info(
+        `${entry.name || entry.id} (~${history.indexOf(entry) + 1})${status}`
+      ),
+      ` ${prompt}`,
+      CliStyle.muted(` (${new Date(entry.timestamp).toLocaleString()})`),
+      others.length > 0 ? CliStyle.muted(` 另引用: ${others.join(', ')}`) : '',
+      entry === target ? CliStyle.warning(' ◀') : ''
+    ].join('');
+  };
+
+  // 只有一条后续记录时不缩进，避免长对话的树过深
+  const visited = new Set<string>();
+  const render = (
+    entry: HistoryEntry,
+    linePrefix: string,
+    childPrefix: string
+  ): void => {
+    if (visited.has(entry.id)) return;
+    visited.add(entry.id);
+    console.log(linePrefix + formatLabel(entry));
+    const entryChildren = children.get(entry.id) ?? [];
+    if (entryChildren.length === 1) {
+      render(entryChildren[0], childPrefix, childPrefix);
+      return;
+    }
+    entryChildren.forEach((child, index) => {
+      const isLast = index === entryChildren.length - 1;
+      render(
+        child,
+        childPrefix + (isLast ? '└─ ' : '├─ '),
+        childPrefix + (isLast ? '   ' : '│  ')
+      );
+    });
+  };
+
+  console.log(CliStyle.success('历史记录对话树:'));
+  console.log(
+    CliStyle.muted('使用 mai continue <id|name|~n> <提示> 从任意记录继续对话。')
+  );
+  for (const root of displayRoots) {
+    console.log();
+    render(root, '', '');
+  }
+}
+
+/**
+ * 获取从指定记录继续对话所需的历史记录 ID：该记录的上下文记录及其自身（按对话顺序）。
+ * 已删除的上下文记录会被跳过。
+ * @param idOrName - 历史记录的 ID、名称或索引。
+ * @returns 按对话顺序排列的历史记录 ID。
+ * @throws {Error} 如果未找到历史记录。
+ */
+export async function getThreadIds(idOrName: string): Promise<string[]> {
+  const history = await loadHistory();
+  if (history.length === 0) {
+    throw new Error('没有历史记录。');
+  }
+  const entry = parseIdOrName(idOrName, history).entry!;
+  const existingIds = new Set(history.map((h) => h.id));
+  const parentIds = entry.parentIds ?? [];
+  const missing = parentIds.filter((id) => !existingIds.has(id));
+  if (missing.length > 0) {
+    console.log(
+      CliStyle.warning(
+        `以下上下文记录已被删除，将被跳过: ${missing.join(', ')}`
+      )
+    );
+  }
+  return [...parentIds.filter((id) => existingIds.has(id)), entry.id];
+}
+
+/**
+ * 通过反转每个操作生成撤销操作。用于未记录完整操作前状态的旧历史记录。
+ * @param entry - 历史记录条目。
+ * @returns 撤销操作列表。
+ */
+function createInverseOperations(entry: HistoryEntry): FileOperation[] {
   // 只处理文件操作，忽略 response 操作
   const fileOperations = entry.operations.filter(
     (op): op is FileOperation => op.type !== 'response'
@@ -212,6 +1043,8 @@ export async function undoHistory(idOrName: string): Promise<void> {
   // 生成undo operations，在reverse order
   const reversedFileOps = fileOperations.slice().reverse();
   const undoOperations: FileOperation[] = [];
+  // 同一文件的多次编辑只需恢复一次原始内容
+  const restoredPaths = new Set<string>();
 
   for (const op of reversedFileOps) {
     let undoOp: FileOperation | undefined;
@@ -250,15 +1083,22 @@ export async function undoHistory(idOrName: string): Promise<void> {
         break;
 
       case 'writeWithReplace':
+      case 'edit':
         const originalContentForReplace =
           entry.originalFileContents?.[op.filePath];
-        if (originalContentForReplace !== undefined) {
+        if (
+          originalContentForReplace !== undefined &&
+          !restoredPaths.has(op.filePath)
+        ) {
+          restoredPaths.add(op.filePath);
           // 使用 create 来覆盖整个文件恢复原始内容
           undoOp = {
             type: 'writeWithReplace',
             filePath: op.filePath,
             content: originalContentForReplace,
-            comment: `撤销替换: 恢复 ${op.filePath} 原始内容`
+            comment: `撤销${
+              op.type === 'edit' ? '编辑' : '替换'
+            }: 恢复 ${op.filePath} 原始内容`
           };
         }
         break;
@@ -270,6 +1110,150 @@ export async function undoHistory(idOrName: string): Promise<void> {
       undoOperations.push(undoOp);
     }
   }
+  return undoOperations;
+}
+
+/**
+ * 根据记录的操作前状态逐路径生成恢复操作：恢复原有文件，删除计划新建的文件。
+ * 内容与操作前相同的路径会被跳过。
+ * @param entry - 历史记录条目（需包含 absentPaths）。
+ * @returns 撤销操作列表。
+ */
+async function createRestoreOperations(
+  entry: HistoryEntry
+): Promise<FileOperation[]> {
+  const undoOperations: FileOperation[] = [];
+
+  for (const filePath of entry.absentPaths ?? []) {
+    if ((await hashFile(filePath)) !== null) {
+      undoOperations.push({
+        type: 'delete',
+        filePath,
+        comment: `撤销: 删除计划创建的 ${filePath}`
+      });
+    }
+  }
+
+  for (const [filePath, content] of Object.entries(
+    entry.originalFileContents ?? {}
+  )) {
+    const currentHash = await hashFile(filePath);
+    if (currentHash === hashContent(content)) continue;
+    undoOperations.push(
+      currentHash === null
+        ? {
+            type: 'create',
+            filePath,
+            content,
+            comment: `撤销: 恢复 ${filePath}`
+          }
+        : {
+            type: 'writeWithReplace',
+            filePath,
+            content,
+            comment: `撤销: 恢复 ${filePath} 原始内容`
+          }
+    );
+  }
+
+  return undoOperations;
+}
+
+/**
+ * 尝试使用 git revert 撤销历史记录关联的提交。
+ * @param entry - 历史记录条目（需包含 gitCommit）。
+ * @returns 是否已处理撤销；返回 false 时应回退到按内容恢复。
+ */
+async function undoWithGitRevert(entry: HistoryEntry): Promise<boolean> {
+  const sha = entry.gitCommit!;
+  const root = await getGitRoot();
+  if (!root || !(await commitExists(root, sha))) {
+    console.log(
+      CliStyle.warning(
+        `关联的提交 ${sha.slice(0, 7)} 不在当前仓库中，将按记录的内容撤销。`
+      )
+    );
+    return false;
+  }
+
+  const { method } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'method',
+      message: `该记录已提交为 ${sha.slice(0, 7)}，如何撤销？`,
+      choices: [
+        { name: '使用 git revert 撤销该提交', value: 'revert' },
+        { name: '按记录的原始内容恢复文件', value: 'replay' },
+        { name: '取消', value: 'cancel' }
+      ]
+    }
+  ]);
+  if (method === 'replay') return false;
+  if (method === 'cancel') {
+    console.log(CliStyle.info('撤销已取消。'));
+    return true;
+  }
+
+  try {
+    const revertSha = await revertCommit(root, sha);
+    await updateHistoryGitCommit(entry.id, undefined);
+    console.log(
+      CliStyle.success(
+        `已通过 git revert 撤销提交 ${sha.slice(0, 7)} (新提交 ${revertSha.slice(0, 7)})`
+      )
+    );
+    return true;
+  } catch (error) {
+    console.log(
+      CliStyle.warning(
+        `git revert 失败: ${(error as Error).message}，将按记录的内容撤销。`
+      )
+    );
+    return false;
+  }
+}
+
+/**
+ * 撤销指定的历史记录所做的更改。
+ * 记录关联了 Git 提交时优先使用 git revert，否则按记录的原始内容恢复。
+ * 如果文件在计划执行后被修改过，会显示三方差异并提供三方合并，而不是直接覆盖。
+ * @param idOrName - 要撤销的历史记录的 ID、名称或索引。
+ * @param force - 是否强制撤销，跳过内容变化检查。
+ */
+export async function undoHistory(
+  idOrName: string,
+  force: boolean = false
+): Promise<void> {
+  const target = await resolveTargetEntry(idOrName, '没有历史记录可撤销。');
+  if (!target) return;
+  const { entry, displayId } = target;
+  console.log(
+    CliStyle.process(`正在撤销: ${entry.description} (${displayId})`)
+  );
+  console.log(CliStyle.muted(`涉及 ${entry.operations.length} 个操作`));
+
+  if (entry.gitCommit && (await undoWithGitRevert(entry))) {
+    return;
+  }
+
+  // 记录了完整操作前状态时逐路径恢复，否则反转每个操作
+  let undoOperations =
+    entry.absentPaths !== undefined
+      ? await createRestoreOperations(entry)
+      : createInverseOperations(entry);
+
+  if (!force) {
+    const resolved = await resolveHistoryDrift(
+      undoOperations,
+      await findUndoDrift(entry),
+      'undo'
+    );
+    if (!resolved) {
+      console.log(CliStyle.info('撤销已取消。'));
+      return;
+    }
+    undoOperations = resolved;
+  }
 
   if (undoOperations.length === 0) {
     console.log(CliStyle.warning('没有可撤销的操作。'));
@@ -280,7 +1264,13 @@ export async function undoHistory(idOrName: string): Promise<void> {
 
   // 使用 plan-reviewer 执行撤销计划
   try {
-    await reviewAndExecutePlan(undoOperations, '撤销计划审查:', entry.prompt);
+    const { applied } = await reviewAndExecutePlan(
+      undoOperations,
+      '撤销计划审查:',
+      `撤销: ${entry.prompt}`
+    );
+    if (!applied) return;
+    await removeCreatedDirs(entry.createdDirs ?? []);
     console.log(
       CliStyle.success(`\n撤销完成: ${entry.description} (${displayId})`)
     );
@@ -292,47 +1282,115 @@ export async function undoHistory(idOrName: string): Promise<void> {
   // 保留历史记录以支持 redo
 }
 
+/**
+ * 如果存在不一致的文件，询问用户的处理方式并据此调整计划。
+ * @returns 调整后的操作列表；用户取消时返回 null。
+ */
+async function resolveHistoryDrift(
+  operations: FileOperation[],
+  driftedFiles: DriftedFile[],
+  direction: 'undo' | 'redo'
+): Promise<FileOperation[] | null> {
+  if (driftedFiles.length === 0) return operations;
+  const resolutions = await resolveDrift(driftedFiles, direction);
+  return resolutions ? applyDriftResolutions(operations, resolutions) : null;
+}
+
 /**
  * 重新应用指定的历史记录所做的更改。
+ * 如果文件与计划执行前的状态不一致，会显示三方差异并提供三方合并。
  * @param idOrName - 要重新应用的历史记录的 ID、名称或索引。
  * @param force - 是否强制重新应用，跳过内容变化检查。
  */
-export async function redoHistory(idOrName: string): Promise<void> {
-  const history = await loadHistory();
-
-  if (history.length === 0) {
-    console.error(CliStyle.error('没有历史记录可重新应用。'));
-    return;
-  }
-
-  let entry: HistoryEntry;
-  let index: number | undefined;
-  let isIndex = false;
-
-  try {
-    const result = parseIdOrName(idOrName, history);
-    entry = result.entry!;
-    index = result.index;
-    isIndex = result.isIndex;
-  } catch (error) {
-    console.error(CliStyle.error(String(error)));
-    return;
-  }
-
-  const displayId = isIndex ? `~${index! + 1}` : entry.name || entry.id;
+export async function redoHistory(
+  idOrName: string,
+  force: boolean = false
+): Promise<void> {
+  const target = await resolveTargetEntry(idOrName, '没有历史记录可重新应用。');
+  if (!target) return;
+  const { entry, displayId } = target;
   console.log(CliStyle.process(`正在重新应用: ${displayId}`));
   console.log(
-    CliStyle.muted(
-      `涉及 ${
-        entry.operations.filter((op) => op.type !== 'response').length
-      } 个文件操作`
-    )
+    CliStyle.muted(`涉及 ${getAppliedOperations(entry).length} 个文件操作`)
   );
-  await reviewAndExecutePlan(
-    entry.operations.filter((op) => op.type !== 'response'),
+  let redoOperations = getAppliedOperations(entry);
+  if (!force) {
+    const resolved = await resolveHistoryDrift(
+      redoOperations,
+      await findRedoDrift(entry),
+      'redo'
+    );
+    if (!resolved) {
+      console.log(CliStyle.info('重新应用已取消。'));
+      return;
+    }
+    redoOperations = resolved;
+  }
+
+  const { applied, gitCommit } = await reviewAndExecutePlan(
+    redoOperations,
     ``,
     entry.prompt
   );
+  if (applied) {
+    await recordResultHashes(entry.id);
+  }
+  if (gitCommit) {
+    await updateHistoryGitCommit(entry.id, gitCommit);
+  }
+}
+
+/**
+ * 将计划执行前的快照记录到历史条目中。已记录的路径保持不变，以保留最早的状态。
+ * @param entry - 历史记录条目。
+ * @param snapshot - 计划执行前的工作区快照。
+ */
+export function recordSnapshot(
+  entry: HistoryEntry,
+  snapshot: PlanSnapshot
+): void {
+  const originals = { ...entry.originalFileContents };
+  const absentPaths = new Set(entry.absentPaths);
+  for (const [filePath, content] of snapshot.files) {
+    if (filePath in originals || absentPaths.has(filePath)) continue;
+    if (content === null) {
+      absentPaths.add(filePath);
+    } else {
+      originals[filePath] = content;
+    }
+  }
+  const createdDirs = [
+    ...new Set([...(entry.createdDirs ?? []), ...snapshot.createdDirs])
+  ].sort((a, b) => b.length - a.length);
+
+  entry.originalFileContents =
+    Object.keys(originals).length > 0 ? originals : undefined;
+  entry.absentPaths = [...absentPaths];
+  entry.createdDirs = createdDirs.length > 0 ? createdDirs : undefined;
+}
+
+/**
+ * 用执行时的快照替换历史条目中记录的执行前状态。
+ * 计划在保存后可能经过审查修改，应以实际执行前的状态作为撤销的依据。
+ * @param id - 历史ID。
+ * @param snapshot - 计划执行前的工作区快照。
+ */
+export async function updateHistorySnapshot(
+  id: string,
+  snapshot: PlanSnapshot
+): Promise<void> {
+  await updateHistoryEntry(id, (entry) => {
+    entry.originalFileContents = undefined;
+    entry.absentPaths = undefined;
+    entry.createdDirs = undefined;
+    if (entry.contentRefs) {
+      entry.contentRefs = {
+        ...entry.contentRefs,
+        originalFileContents: undefined
+      };
+    }
+    recordSnapshot(entry, snapshot);
+  });
 }
 
 /**
@@ -340,25 +1398,22 @@ export async function redoHistory(idOrName: string): Promise<void> {
  * @param userPrompt - 用户提示。
  * @param aiResponse - AI原始响应。
  * @param operations - 所有操作（response + file）。
- * @param fileOriginalContents - 原始文件内容映射（仅文件操作）。
+ * @param snapshot - 文件操作涉及路径在执行前的快照，可选。
  * @param executionDescription - 执行描述，可选。
- * @param files - 用户传递的文件列表，可选。
+ * @param details - 文件列表、模型和上下文记录等附加信息，可选。
  */
 export async function saveAiHistory(
   userPrompt: string,
   aiResponse: string,
   operations: AiOperation[],
-  fileOriginalContents: Map<string, string> = new Map(),
+  snapshot?: PlanSnapshot,
   executionDescription?: string,
-  files?: string[]
+  details: HistoryEntryDetails = {}
 ): Promise<HistoryEntry> {
+  const { files, model, temperature, usage, latencyMs, parentIds } = details;
   try {
     console.log(CliStyle.muted('正在保存本次AI对话历史...'));
 
-    // 转换原始文件内容为记录对象（仅为文件操作）
-    const originalFileContents: Record<string, string> =
-      Object.fromEntries(fileOriginalContents);
-
     const historyEntry: HistoryEntry = {
       id: Date.now().toString(),
       timestamp: new Date().toISOString(),
@@ -367,15 +1422,19 @@ export async function saveAiHistory(
       description:
         executionDescription || `AI响应和 ${operations.length} 个操作`,
       operations,
-      originalFileContents:
-        Object.keys(originalFileContents).length > 0
-          ? originalFileContents
-          : undefined,
       ...(operations.some((op) => op.type !== 'response')
         ? { applied: false }
         : {}),
-      ...(files && files.length > 0 ? { files } : {})
+      ...(files && files.length > 0 ? { files } : {}),
+      ...(model ? { model } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(usage ? { usage } : {}),
+      ...(latencyMs !== undefined ? { latencyMs } : {}),
+      ...(parentIds && parentIds.length > 0 ? { parentIds } : {})
     };
+    if (snapshot) {
+      recordSnapshot(historyEntry, snapshot);
+    }
 
     await appendHistory(historyEntry);
     return historyEntry;
@@ -418,16 +1477,15 @@ export async function deleteHistory(idOrName: string): Promise<void> {
   }
 
   const displayId = isIndex ? `~${index! + 1}` : entry.name || entry.id;
-  const initialLength = history.length;
-  const filteredHistory = history.filter((h) => h !== entry);
-
-  await saveHistory(filteredHistory);
+  let removedCount = 0;
+  // 按 ID 删除，期间其他进程新增的记录不受影响
+  await updateHistory((current) => {
+    const filteredHistory = current.filter((h) => h.id !== entry!.id);
+    removedCount = current.length - filteredHistory.length;
+    return filteredHistory;
+  });
   console.log(
-    CliStyle.success(
-      `已删除历史记录: ${displayId} (${
-        initialLength - filteredHistory.length
-      } 个条目）`
-    )
+    CliStyle.success(`已删除历史记录: ${displayId} (${removedCount} 个条目）`)
   );
 }
 
@@ -440,7 +1498,7 @@ export async function getHistoryById(
       return undefined;
     }
     const result = parseIdOrName(idOrName, history);
-    return result.entry;
+    return await loadEntryContents(result.entry!);
   } catch {
     return undefined;
   }
@@ -450,13 +1508,40 @@ export async function getHistoryById(
  * 清除所有历史记录。
  */
 export async function clearHistory(): Promise<void> {
-  const history = await loadHistory();
-  if (history.length === 0) {
+  let clearedCount = 0;
+  await updateHistory((history) => {
+    clearedCount = history.length;
+    return [];
+  });
+  if (clearedCount === 0) {
     console.log(CliStyle.info('没有历史记录可清除。'));
     return;
   }
-  await saveHistory([]);
-  console.log(CliStyle.success(`已清除 ${history.length} 条历史记录。`));
+  console.log(CliStyle.success(`已清除 ${clearedCount} 条历史记录。`));
+}
+
+/**
+ * 按保留策略清理所有项目的历史记录，并删除不再被引用的文件内容。
+ * @param options - 覆盖配置中的保留策略：keep 为每个项目保留的条数，days 为保留的天数。
+ */
+export async function pruneHistory(
+  options: { keep?: number; days?: number } = {}
+): Promise<void> {
+  const retention = await getHistoryRetention();
+  if (options.keep !== undefined) retention.maxEntries = options.keep;
+  if (options.days !== undefined) retention.maxAgeDays = options.days;
+
+  console.log(
+    CliStyle.process(
+      `正在清理历史记录 (每个项目最多保留: ${retention.maxEntries || '不限'} 条，保留天数: ${retention.maxAgeDays || '不限'})...`
+    )
+  );
+  const { entries, blobs, bytes } = await pruneHistoryStores(retention);
+  console.log(
+    CliStyle.success(
+      `已移除 ${entries} 条历史记录，删除 ${blobs} 个不再引用的内容，释放 ${(bytes / 1024).toFixed(1)} KB。`
+    )
+  );
 }
 
 /**
@@ -480,6 +1565,9 @@ export function formatHistoryContext(entry: HistoryEntry): string {
   } else {
     historyContent += `\noperations: ${operationsJson}`;
   }
+  if (entry.rejectedHunks && entry.rejectedHunks.length > 0) {
+    historyContent += `\nrejectedHunks:\n${formatRejectedHunks(entry.rejectedHunks)}`;
+  }
   historyContent += `\n${endDelimiter('HISTORY')}`;
   return historyContent;
 }
@@ -492,7 +1580,11 @@ export function formatHistoryContext(entry: HistoryEntry): string {
 export async function getRecentHistory(depth: number): Promise<HistoryEntry[]> {
   if (depth < 1) return [];
   const history = await loadHistory();
-  return history.slice(0, depth);
+  const entries = history.slice(0, depth);
+  for (const entry of entries) {
+    await loadEntryContents(entry);
+  }
+  return entries;
 }
 
 /**
@@ -516,10 +1608,69 @@ export async function updateHistoryApplied(
   id: string,
   applied: boolean
 ): Promise<void> {
-  const history = await loadHistory();
-  const entry = history.find((h: HistoryEntry) => h.id === id);
-  if (entry) {
+  await updateHistoryEntry(id, (entry) => {
     entry.applied = applied;
-    await saveHistory(history);
-  }
+  });
+}
+
+/**
+ * 记录逐块审查中被用户拒绝的更改。
+ * @param id - 历史ID。
+ * @param rejectedHunks - 被拒绝的更改。
+ */
+export async function updateHistoryRejectedHunks(
+  id: string,
+  rejectedHunks: RejectedHunk[]
+): Promise<void> {
+  await updateHistoryEntry(id, (entry) => {
+    entry.rejectedHunks = rejectedHunks;
+  });
+}
+
+/**
+ * 记录实际执行的文件操作；与计划中的文件操作相同时不单独保存。
+ * @param id - 历史ID。
+ * @param operations - 实际执行的文件操作。
+ */
+export async function updateHistoryAppliedOperations(
+  id: string,
+  operations: FileOperation[]
+): Promise<void> {
+  await updateHistoryEntry(id, (entry) => {
+    const planned = entry.operations.filter((op) => op.type !== 'response');
+    entry.appliedOperations =
+      JSON.stringify(planned) === JSON.stringify(operations)
+        ? undefined
+        : operations;
+  });
+}
+
+/**
+ * 记录应用计划生成的 Git 提交。
+ * @param id - 历史ID。
+ * @param gitCommit - 提交 SHA；undefined 表示清除（例如已被 revert）。
+ */
+export async function updateHistoryGitCommit(
+  id: string,
+  gitCommit: string | undefined
+): Promise<void> {
+  await updateHistoryEntry(id, (entry) => {
+    entry.gitCommit = gitCommit;
+  });
+}
+
+/**
+ * 记录计划执行后各涉及文件内容的哈希，用于撤销/重做前检测之后的修改。
+ * @param id - 历史ID。
+ */
+export async function recordResultHashes(id: string): Promise<void> {
+  await updateHistoryEntry(id, async (entry) => {
+    const resultFileHashes: Record<string, string | null> = {};
+    for (const op of getAppliedOperations(entry)) {
+      for (const filePath of getTouchedPaths(op)) {
+        resultFileHashes[filePath] = await hashFile(filePath);
+      }
+    }
+    entry.resultFileHashes = resultFileHashes;
+  });
 }
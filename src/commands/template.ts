@@ -3,6 +3,11 @@ import * as fs from 'fs/promises';
 import inquirer from 'inquirer';
 import { CliStyle } from '../utils/cli-style';
 import { TemplateManager } from '../utils/template-manager';
+import {
+  getCommandName,
+  openFileInEditor,
+  resolveEditorCommand
+} from '../utils/editor-utils';
 import { processRequest } from '../core/main-processor';
 
 /**
@@ -157,7 +162,7 @@ export async function editTemplate(templateName: string): Promise<void> {
       .trim();
 
     // 使用编辑器编辑
-    const editor = process.env.EDITOR || 'notepad';
+    const editor = getCommandName(await resolveEditorCommand());
     const tempFile = path.join(
       process.cwd(),
       `.mai_template_edit_${Date.now()}.${currentContent.format}`
@@ -170,8 +175,7 @@ export async function editTemplate(templateName: string): Promise<void> {
     console.log(CliStyle.muted('保存并关闭编辑器以应用更改'));
 
     // 启动编辑器
-    const { execSync } = await import('child_process');
-    execSync(`${editor} "${tempFile}"`, { stdio: 'inherit' });
+    await openFileInEditor(tempFile);
 
     // 读取编辑后的内容
     const newContent = await fs.readFile(tempFile, 'utf-8');
@@ -3,4 +3,8 @@
  */
 export const MAI_CONFIG_DIR_NAME = '.mai';
 export const CONFIG_FILE_NAME = 'config.json5';
-export const HISTORY_FILE_NAME = 'history.json';
+export const HISTORY_FILE_NAME = 'history.json'; // 旧版全局历史记录文件
+export const HISTORY_DIR_NAME = 'history'; // 按项目存放的历史记录目录
+export const HISTORY_INDEX_FILE_NAME = 'index.jsonl'; // 项目历史记录的追加写入索引
+export const HISTORY_BLOB_DIR_NAME = 'blobs'; // 按内容寻址存放文件内容和 AI 响应
+export const MOCK_DIR_NAME = 'mocks'; // mock 提供商的响应样例目录
@@ -50,6 +50,7 @@ ${endDelimiter('FILE')}
 - 仔细分析用户请求，明确理解需求。
 - 尽量以最简短而精确的方式提交操作。例如，如果你要对整个文件做大面积修改，你应该留空 find 参数覆写整个文件，而非在 find 中重复一遍原文。
 - 禁止多次文件编辑操作之间重叠。
+- 对同一文件的多处修改，应在一个 writeWithReplace 操作中按顺序提供多组 find/content 块，而不是拆分为多个操作。
 - 为每个文件操作提供简要清晰的 comment 说明。
 - 代码/注释比例应保持在 5:1 左右。若需要详细解释，可以使用 response 操作而非在文件内容中添加注释。
 - 如果文件上下文中包含任何计划、文档、规范或明确说明为范例的代码，必须严格遵循其中定义的规范和模式进行开发。
@@ -65,3 +66,20 @@ ${endDelimiter('FILE')}
 export function createUserPrompt(userPrompt: string): string {
   return `${userPrompt}`;
 }
+
+/**
+ * 构建计划修复请求：将验证错误和相关文件的当前内容发回给AI，要求重新输出完整计划。
+ * @param errors - 验证器报告的错误。
+ * @param fileContext - 相关文件的当前内容（已格式化）。
+ * @returns 修复请求字符串。
+ */
+export function createRepairPrompt(
+  errors: string[],
+  fileContext: string
+): string {
+  return `你上一次输出的计划未通过验证，无法执行。错误如下:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+请根据下面相关文件的当前内容修正计划，并重新输出完整的操作列表（包括无需修改的操作）。writeWithReplace 的 find 必须与文件内容逐字一致且唯一。
+${fileContext ? `\n${fileContext}` : ''}`;
+}
@@ -6,15 +6,81 @@ import {
 } from './operation-definitions';
 import { CliStyle } from '../utils/cli-style';
 import * as JSON5 from 'json5'; // Use JSON5 for parsing flexibly
-import { AiOperation } from './operation-schema';
+import {
+  AiOperation,
+  CreateOperationSchema,
+  DeleteOperationSchema,
+  EditOperationSchema,
+  MoveOperationSchema,
+  OperationTypeSchema,
+  ResponseOperationSchema,
+  writeWithReplaceHunksOperationSchema,
+  writeWithReplaceOperationSchema
+} from './operation-schema';
 import { OperationValidator } from './operation-validator';
 import { toAbsolutePath } from '../utils/file-utils';
+import { looksLikePatch, parsePatchToOperations } from './plan-patch';
 
 /**
  * 类型别名，用于清晰表示局部 AI 操作。
  */
 type PartialAiOperation = Partial<AiOperation> & { [key: string]: any };
 
+/**
+ * 为操作设置内容块的值。同一内容块重复出现时收集为数组（用于多段替换）。
+ * @param operation - 正在解析的操作。
+ * @param key - 内容块的键（小写）。
+ * @param value - 内容块的值。
+ */
+function setBlockValue(
+  operation: PartialAiOperation,
+  key: string,
+  value: string
+): void {
+  const existing = operation[key];
+  if (existing === undefined) {
+    operation[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    operation[key] = [existing, value];
+  }
+}
+
+/**
+ * 将包含多组 find/content 块的 writeWithReplace 操作转换为多段替换（hunks）形式。
+ * @param operation - 解析出的操作。
+ * @returns 规范化后的操作。
+ * @throws {Error} 如果 find 块与 content 块数量不匹配。
+ */
+function normalizeReplaceHunks(
+  operation: PartialAiOperation
+): PartialAiOperation {
+  if (
+    operation.type !== 'writeWithReplace' ||
+    (!Array.isArray(operation.find) && !Array.isArray(operation.content))
+  ) {
+    return operation;
+  }
+
+  const finds: string[] = [].concat(operation.find ?? []);
+  const contents: string[] = [].concat(operation.content ?? []);
+  if (finds.length !== contents.length) {
+    throw new Error(
+      `多段替换中 find 块 (${finds.length}个) 与 content 块 (${contents.length}个) 数量不匹配`
+    );
+  }
+
+  const { find, content, ...rest } = operation;
+  return {
+    ...rest,
+    hunks: finds.map((findText, index) => ({
+      find: findText,
+      content: contents[index]
+    }))
+  };
+}
+
 /**
  * 解析单个定界操作块的内容。
  * 职责：提取参数和内容。支持动态的 XXX_START/XXX_END 内容块，并确保定界符单独成行。
@@ -42,7 +108,11 @@ async function parseSingleOperationBlock(
       if (currentContentKey) {
         if (looseMode) {
           // 自动关闭上一个内容块
-          operation[currentContentKey.toLowerCase()] = contentLines.join('\n');
+          setBlockValue(
+            operation,
+            currentContentKey.toLowerCase(),
+            contentLines.join('\n')
+          );
           console.log(
             CliStyle.warning(
               `自动关闭未闭合的 ${currentContentKey.toLowerCase()} 块`
@@ -70,7 +140,11 @@ async function parseSingleOperationBlock(
       ) {
         // 将收集到的行连接成字符串并赋值给对应的键的小写形式
         // 例如, LOG_END -> operation.log
-        operation[currentContentKey.toLowerCase()] = contentLines.join('\n');
+        setBlockValue(
+          operation,
+          currentContentKey.toLowerCase(),
+          contentLines.join('\n')
+        );
 
         // 重置状态，准备解析下一个参数或内容块
         contentLines = [];
@@ -124,7 +198,11 @@ async function parseSingleOperationBlock(
   if (currentContentKey) {
     if (looseMode) {
       // 自动关闭最后一个内容块
-      operation[currentContentKey.toLowerCase()] = contentLines.join('\n');
+      setBlockValue(
+        operation,
+        currentContentKey.toLowerCase(),
+        contentLines.join('\n')
+      );
       console.log(
         CliStyle.warning(
           `自动关闭未闭合的 ${currentContentKey.toLowerCase()} 块`
@@ -135,7 +213,57 @@ async function parseSingleOperationBlock(
     }
   }
 
-  return operation;
+  return normalizeReplaceHunks(operation);
+}
+
+/**
+ * 描述操作验证失败的具体原因：未知的操作类型，或该类型缺少或无效的字段。
+ * @param operation - 解析出的操作。
+ * @returns 失败原因。
+ */
+function describeInvalidOperation(operation: PartialAiOperation): string {
+  const typeResult = OperationTypeSchema.safeParse(operation.type);
+  if (!typeResult.success) {
+    return `未知的操作类型 '${operation.type}'`;
+  }
+  const schemas = {
+    response: ResponseOperationSchema,
+    create: CreateOperationSchema,
+    writeWithReplace: operation.hunks
+      ? writeWithReplaceHunksOperationSchema
+      : writeWithReplaceOperationSchema,
+    edit: EditOperationSchema,
+    move: MoveOperationSchema,
+    delete: DeleteOperationSchema
+  };
+  const result = schemas[typeResult.data].safeParse(operation);
+  if (result.success) return '未知错误';
+  return result.error.issues
+    .map((issue) => {
+      const field = String(issue.path[0] ?? '');
+      if (!field) return issue.message;
+      return operation[field] === undefined
+        ? `缺少字段 '${field}'`
+        : `字段 '${issue.path.join('.')}' 无效: ${issue.message}`;
+    })
+    .join('; ');
+}
+
+/**
+ * 解析并验证单个定界操作块，用于在流式响应中逐个解析已完成的操作块。
+ * @param blockContent - OPERATION_START 和 OPERATION_END 之间的内容。
+ * @returns 验证过的操作。
+ * @throws {Error} 如果块格式错误或验证失败。
+ */
+export async function parseOperationBlock(
+  blockContent: string
+): Promise<AiOperation> {
+  const operation = await parseSingleOperationBlock(blockContent, true);
+  const validation = OperationValidator.validateOperation(operation);
+  if (!validation.isValid) {
+    throw new Error(describeInvalidOperation(operation));
+  }
+  return operation as AiOperation;
 }
 
 /**
@@ -225,9 +353,7 @@ async function parseDelimitedOperations(
         if (!validation.isValid) {
           console.log(
             CliStyle.warning(
-              `操作 ${i + 1} 验证失败: ${
-                validation.errors?.join(', ') || '未知错误'
-              }`
+              `操作 ${i + 1} 验证失败: ${describeInvalidOperation(operation)}`
             )
           );
           errors++;
@@ -304,7 +430,7 @@ async function tryParseAsJson(response: string): Promise<AiOperation[]> {
 
 /**
  * 主解析函数。
- * 职责：优先 JSON，其次定界格式，确保稳定解析。
+ * 职责：优先 JSON，其次统一差异补丁，最后定界格式，确保稳定解析。
  * @param response - AI响应字符串。
  * @returns 验证过的操作数组。
  */
@@ -336,6 +462,25 @@ export async function parseAiResponse(
     );
   }
 
+  // 尝试统一差异 / git 补丁格式
+  if (looksLikePatch(trimmed)) {
+    try {
+      const patchOps = await parsePatchToOperations(trimmed);
+      if (patchOps.length > 0) {
+        console.log(CliStyle.info(`解析到 ${patchOps.length} 个补丁操作`));
+        return patchOps;
+      }
+    } catch (error) {
+      console.warn(
+        CliStyle.warning(
+          `尝试补丁解析失败: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+    }
+  }
+
   // 回退到定界格式
   const delimitedOps = await parseDelimitedOperations(
     trimmed,
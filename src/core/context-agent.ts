@@ -7,7 +7,7 @@ import {
   getProjectOverview,
   validateFilePaths
 } from '../utils/file-utils';
-import { getAiResponse, streamAiResponse } from '../utils/network';
+import { streamAiResponse } from '../utils/network';
 import { FileContextItem } from './file-context';
 import { ModelMessage } from 'ai';
 
@@ -0,0 +1,215 @@
+import { ModelMessage } from 'ai';
+
+import { CliStyle } from '../utils/cli-style';
+import { ContextStrategy } from '../utils/config-manager';
+import {
+  estimateMessagesTokens,
+  estimateTokens
+} from '../utils/token-estimator';
+import {
+  FileContextBlock,
+  joinFileContextBlocks,
+  truncateFileContextBlock
+} from './file-context';
+import { toDisplayPath } from './plan-preview';
+
+/** 截断后剩余不足该 token 数的文件直接移除。 */
+const MIN_TRUNCATED_FILE_TOKENS = 200;
+
+/** 摘要中单独列出的最大文件数量。 */
+const SUMMARY_FILE_COUNT = 5;
+
+/**
+ * 组成一次请求的上下文。
+ */
+export interface RequestContext {
+  systemPrompt: string;
+  /** 历史对话，从旧到新。 */
+  historyTurns: Array<{ id: string; messages: ModelMessage[] }>;
+  userPrompt: string;
+  fileBlocks: FileContextBlock[];
+}
+
+/**
+ * 将上下文组装为发送给 AI 的消息列表：系统提示、历史对话、用户指令、文件上下文。
+ * @param context - 请求上下文。
+ * @returns 消息列表。
+ */
+export function buildRequestMessages(context: RequestContext): ModelMessage[] {
+  const fileContext = joinFileContextBlocks(context.fileBlocks);
+  return [
+    ...(context.systemPrompt
+      ? [{ role: 'system', content: context.systemPrompt }]
+      : []),
+    ...context.historyTurns.flatMap((turn) => turn.messages),
+    { role: 'user', content: context.userPrompt },
+    ...(fileContext ? [{ role: 'user', content: fileContext }] : [])
+  ] as ModelMessage[];
+}
+
+function estimateContextTokens(context: RequestContext): number {
+  return estimateMessagesTokens(buildRequestMessages(context));
+}
+
+function formatTokens(tokens: number): string {
+  return `约 ${tokens.toLocaleString()} tokens`;
+}
+
+/**
+ * 显示发送前的上下文估算：总量以及系统提示词、历史、用户指令和各文件的占用。
+ */
+function showContextSummary(
+  context: RequestContext,
+  total: number,
+  limit?: number
+): void {
+  const limitDesc = limit ? `，上限 ${limit.toLocaleString()}` : '';
+  console.log(CliStyle.info(`上下文估算: ${formatTokens(total)}${limitDesc}`));
+
+  const rows: Array<[string, number]> = [];
+  if (context.systemPrompt) {
+    rows.push(['系统提示词', estimateTokens(context.systemPrompt)]);
+  }
+  if (context.historyTurns.length > 0) {
+    rows.push([
+      `历史记录 (${context.historyTurns.length} 条)`,
+      estimateMessagesTokens(
+        context.historyTurns.flatMap((turn) => turn.messages)
+      )
+    ]);
+  }
+  rows.push(['用户指令', estimateTokens(context.userPrompt)]);
+
+  const files = context.fileBlocks
+    .map((block) => ({
+      name: toDisplayPath(block.item.path),
+      tokens: estimateTokens(block.text)
+    }))
+    .sort((a, b) => b.tokens - a.tokens);
+  if (files.length > 0) {
+    rows.push([
+      `文件 (${files.length} 个)`,
+      files.reduce((sum, file) => sum + file.tokens, 0)
+    ]);
+  }
+  for (const [label, tokens] of rows) {
+    console.log(CliStyle.muted(`  ${label}: ${formatTokens(tokens)}`));
+  }
+
+  for (const file of files.slice(0, SUMMARY_FILE_COUNT)) {
+    console.log(
+      CliStyle.muted(`    ${file.name}: ${formatTokens(file.tokens)}`)
+    );
+  }
+  const rest = files.slice(SUMMARY_FILE_COUNT);
+  if (rest.length > 0) {
+    const restTokens = rest.reduce((sum, file) => sum + file.tokens, 0);
+    console.log(
+      CliStyle.muted(
+        `    其余 ${rest.length} 个文件: ${formatTokens(restTokens)}`
+      )
+    );
+  }
+}
+
+/**
+ * 将文件截断到不超过指定的 token 数。
+ * @returns 截断后的上下文块；剩余内容过少时返回 null。
+ */
+function truncateToTokens(
+  block: FileContextBlock,
+  maxTokens: number
+): FileContextBlock | null {
+  if (maxTokens < MIN_TRUNCATED_FILE_TOKENS) return null;
+  const tokens = estimateTokens(block.text);
+  let maxLines = Math.floor((block.lines.length * maxTokens) / tokens);
+  while (maxLines > 0) {
+    const truncated = truncateFileContextBlock(block, maxLines);
+    if (estimateTokens(truncated.text) <= maxTokens) return truncated;
+    maxLines = Math.floor(maxLines * 0.9);
+  }
+  return null;
+}
+
+/**
+ * 在发送前估算上下文大小并显示摘要。超出上限时按策略处理：
+ * 拒绝发送，或从最早的历史记录开始移除，仍超出时再移除或截断最大的文件。
+ * @param context - 请求上下文。
+ * @param limit - 上下文 token 上限；undefined 表示不限制。
+ * @param strategy - 超出上限时的处理方式。
+ * @returns 符合上限的上下文。
+ * @throws {Error} 如果超出上限且策略为 refuse，或裁剪后仍超出上限。
+ */
+export function applyContextBudget(
+  context: RequestContext,
+  limit: number | undefined,
+  strategy: ContextStrategy
+): RequestContext {
+  let total = estimateContextTokens(context);
+  showContextSummary(context, total, limit);
+  if (limit === undefined || total <= limit) return context;
+
+  if (strategy === 'refuse') {
+    throw new Error(
+      `上下文${formatTokens(total)}，超出上限 ${limit.toLocaleString()}。请减少文件或历史记录、通过 --max-context 调整上限，或将 context.strategy 设置为 trim / truncate。`
+    );
+  }
+
+  console.log(
+    CliStyle.warning(
+      `上下文超出上限 ${limit.toLocaleString()}，按 ${strategy} 策略裁剪:`
+    )
+  );
+  const result: RequestContext = {
+    ...context,
+    historyTurns: [...context.historyTurns],
+    fileBlocks: [...context.fileBlocks]
+  };
+
+  while (result.historyTurns.length > 0 && total > limit) {
+    const turn = result.historyTurns.shift()!;
+    console.log(
+      CliStyle.muted(
+        `  移除历史记录 ${turn.id} (${formatTokens(estimateMessagesTokens(turn.messages))})`
+      )
+    );
+    total = estimateContextTokens(result);
+  }
+
+  const largestFirst = [...result.fileBlocks].sort(
+    (a, b) => estimateTokens(b.text) - estimateTokens(a.text)
+  );
+  for (const block of largestFirst) {
+    if (total <= limit) break;
+    const tokens = estimateTokens(block.text);
+    const name = toDisplayPath(block.item.path);
+    const truncated =
+      strategy === 'truncate'
+        ? truncateToTokens(block, tokens - (total - limit))
+        : null;
+    if (truncated) {
+      result.fileBlocks = result.fileBlocks.map((b) =>
+        b === block ? truncated : b
+      );
+      console.log(
+        CliStyle.muted(
+          `  截断文件 ${name}: 保留前 ${truncated.lines.length}/${block.lines.length} 行`
+        )
+      );
+    } else {
+      result.fileBlocks = result.fileBlocks.filter((b) => b !== block);
+      console.log(
+        CliStyle.muted(`  移除文件 ${name} (${formatTokens(tokens)})`)
+      );
+    }
+    total = estimateContextTokens(result);
+  }
+
+  if (total > limit) {
+    throw new Error(
+      `移除历史记录和文件后上下文仍${formatTokens(total)}，超出上限 ${limit.toLocaleString()}。请缩短系统提示词或用户指令。`
+    );
+  }
+  console.log(CliStyle.info(`裁剪后上下文: ${formatTokens(total)}`));
+  return result;
+}
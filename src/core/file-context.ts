@@ -10,6 +10,18 @@ export interface FileContextItem {
   start?: number;
   end?: number;
 }
+
+/**
+ * 单个文件格式化后的上下文块。
+ */
+export interface FileContextBlock {
+  item: FileContextItem;
+  /** 块中包含的文件行。 */
+  lines: string[];
+  /** 格式化后的块文本。 */
+  text: string;
+}
+
 /**
  * 读取指定文件的内容并将其格式化为上下文。
  * 支持文件路径中的 glob 模式以包含多个文件。
@@ -17,7 +29,17 @@ export interface FileContextItem {
  * @returns 包含连接文件上下文的字符串。
  */
 export async function getFileContext(filePatterns: string[]): Promise<string> {
-  const contents: string[] = [];
+  return joinFileContextBlocks(await getFileContextBlocks(filePatterns));
+}
+
+/**
+ * 读取指定文件的内容并按文件分别格式化为上下文块，便于逐个估算和裁剪。
+ * @param filePatterns - 文件路径或 glob 模式数组。
+ * @returns 各文件的上下文块。
+ */
+export async function getFileContextBlocks(
+  filePatterns: string[]
+): Promise<FileContextBlock[]> {
   const fileRanges = new Map<string, Array<{ start?: number; end?: number }>>();
 
   for (const pattern of filePatterns) {
@@ -126,10 +148,17 @@ export async function getFileContext(filePatterns: string[]): Promise<string> {
 
   if (items.length === 0) {
     console.log(CliStyle.warning('警告: 未找到与提供模式匹配的文件。'));
-    return '';
+    return [];
   }
 
-  return await formatFileContexts(items);
+  return await formatFileContextBlocks(items);
+}
+
+/**
+ * 将文件上下文块连接为发送给 AI 的上下文字符串。
+ */
+export function joinFileContextBlocks(blocks: FileContextBlock[]): string {
+  return blocks.map((block) => block.text).join('\n\n');
 }
 
 /**
@@ -140,11 +169,23 @@ export async function getFileContext(filePatterns: string[]): Promise<string> {
 export async function formatFileContexts(
   items: FileContextItem[]
 ): Promise<string> {
-  const contents: string[] = [];
+  return joinFileContextBlocks(await formatFileContextBlocks(items));
+}
+
+/**
+ * 读取文件内容并为每个文件生成上下文块。
+ * @param items - 包含文件路径（不支持 glob）、行号范围（可选）和 comment（可选）的对象数组。
+ * @returns 各文件的上下文块，目录和无法读取的文件会被跳过。
+ */
+export async function formatFileContextBlocks(
+  items: FileContextItem[]
+): Promise<FileContextBlock[]> {
+  const blocks: FileContextBlock[] = [];
 
   for (const item of items) {
     try {
-      await addFileContent(item, contents);
+      const block = await readFileContextBlock(item);
+      if (block) blocks.push(block);
     } catch (error) {
       console.log(
         CliStyle.warning(
@@ -155,80 +196,100 @@ export async function formatFileContexts(
       );
     }
   }
-  if (contents.length === 0) {
-    return '';
+  if (blocks.length === 0) {
+    return [];
   }
 
   console.log(CliStyle.success(`成功添加 ${items.length} 个文件。`));
-  return contents.join('\n\n');
+  return blocks;
+}
 
-  async function addFileContent(
-    item: { path: string; start?: number; end?: number; comment?: string },
-    contents: string[]
-  ) {
-    try {
-      const stat = await fs.stat(item.path);
-      if (stat.isDirectory()) {
-        return;
-      }
-      const content = await fs.readFile(item.path, 'utf-8');
-      const lines = content.split('\n');
-
-      let extractedLines: string[];
-      let displayStart: number;
-      if (item.start !== undefined) {
-        displayStart = item.start;
-        const actualEnd =
-          item.end !== undefined
-            ? Math.min(item.end, lines.length)
-            : lines.length;
-        extractedLines = lines.slice(item.start - 1, actualEnd);
-        if (extractedLines.length === 0) {
-          console.log(
-            CliStyle.warning(
-              `警告: 文件 ${item.path} 中范围 ${item.start}-${
-                item.end ?? 'end'
-              } 为空，跳过。`
-            )
-          );
-          return;
-        }
-      } else {
-        displayStart = 1;
-        extractedLines = lines;
-      }
+/**
+ * 只保留上下文块的前若干行，并在元数据中注明截断情况。
+ * @param block - 原上下文块。
+ * @param maxLines - 保留的最大行数。
+ * @returns 截断后的上下文块；无需截断时返回原块。
+ */
+export function truncateFileContextBlock(
+  block: FileContextBlock,
+  maxLines: number
+): FileContextBlock {
+  if (block.lines.length <= maxLines) return block;
+  const start = block.item.start ?? 1;
+  const lines = block.lines.slice(0, maxLines);
+  const item: FileContextItem = {
+    ...block.item,
+    start,
+    end: start + lines.length - 1,
+    comment: `内容过长，仅包含前 ${lines.length} 行（共 ${block.lines.length} 行）`
+  };
+  return { item, lines, text: formatFileBlock(item, lines) };
+}
 
-      // 添加行号标记
-      const numberedContent = extractedLines
-        .map(
-          (line, index) => `${String(displayStart + index).padStart(4)}|${line}`
-        )
-        .join('\n');
-      let fileBlock = `${startDelimiter('FILE')}\n`;
-      fileBlock += `${startDelimiter('metadata')}\npath: ${item.path}\n`;
-      const rangeDesc =
-        item.start !== undefined ? `${item.start}-${item.end ?? 'end'}` : '';
-      if (rangeDesc) {
-        fileBlock += `range: ${rangeDesc}\n`;
-      }
-      if (item.comment) {
-        fileBlock += `comment: ${item.comment}\n`;
+async function readFileContextBlock(
+  item: FileContextItem
+): Promise<FileContextBlock | null> {
+  try {
+    const stat = await fs.stat(item.path);
+    if (stat.isDirectory()) {
+      return null;
+    }
+    const content = await fs.readFile(item.path, 'utf-8');
+    const lines = content.split('\n');
+
+    let extractedLines: string[];
+    if (item.start !== undefined) {
+      const actualEnd =
+        item.end !== undefined
+          ? Math.min(item.end, lines.length)
+          : lines.length;
+      extractedLines = lines.slice(item.start - 1, actualEnd);
+      if (extractedLines.length === 0) {
+        console.log(
+          CliStyle.warning(
+            `警告: 文件 ${item.path} 中范围 ${item.start}-${
+              item.end ?? 'end'
+            } 为空，跳过。`
+          )
+        );
+        return null;
       }
-      fileBlock += `${endDelimiter('metadata')}\n`;
-      // fileBlock += `\n${numberedContent}\n${endDelimiter('FILE')}`;
-      fileBlock += `${startDelimiter('content')}\n`;
-      fileBlock += `${extractedLines.join('\n')}\n`;
-      fileBlock += `${endDelimiter('content')}\n`;
-      fileBlock += endDelimiter('FILE');
-      contents.push(fileBlock);
-    } catch (error) {
-      console.log(
-        CliStyle.warning(
-          `警告: 无法读取文件 ${item.path}，跳过。错误: ${
-            (error as Error).message
-          }`
-        )
-      );
+    } else {
+      extractedLines = lines;
     }
+
+    return {
+      item,
+      lines: extractedLines,
+      text: formatFileBlock(item, extractedLines)
+    };
+  } catch (error) {
+    console.log(
+      CliStyle.warning(
+        `警告: 无法读取文件 ${item.path}，跳过。错误: ${
+          (error as Error).message
+        }`
+      )
+    );
+    return null;
+  }
+}
+
+function formatFileBlock(item: FileContextItem, lines: string[]): string {
+  let fileBlock = `${startDelimiter('FILE')}\n`;
+  fileBlock += `${startDelimiter('metadata')}\npath: ${item.path}\n`;
+  const rangeDesc =
+    item.start !== undefined ? `${item.start}-${item.end ?? 'end'}` : '';
+  if (rangeDesc) {
+    fileBlock += `range: ${rangeDesc}\n`;
+  }
+  if (item.comment) {
+    fileBlock += `comment: ${item.comment}\n`;
   }
+  fileBlock += `${endDelimiter('metadata')}\n`;
+  fileBlock += `${startDelimiter('content')}\n`;
+  fileBlock += `${lines.join('\n')}\n`;
+  fileBlock += `${endDelimiter('content')}\n`;
+  fileBlock += endDelimiter('FILE');
+  return fileBlock;
 }
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyDriftResolutions } from './history-drift';
+
+describe('applyDriftResolutions', () => {
+  it('replaces the content operations of a merged file with the merge result', () => {
+    const operations = applyDriftResolutions(
+      [
+        { type: 'writeWithReplace', filePath: '/p/a.js', content: 'a' },
+        {
+          type: 'edit',
+          filePath: '/p/a.js',
+          startLine: 1,
+          endLine: 1,
+          content: 'b'
+        },
+        { type: 'delete', filePath: '/p/b.js' }
+      ],
+      new Map([['/p/a.js', { action: 'merge' as const, content: 'merged' }]])
+    );
+
+    expect(operations).toEqual([
+      expect.objectContaining({
+        type: 'writeWithReplace',
+        filePath: '/p/a.js',
+        content: 'merged'
+      }),
+      { type: 'delete', filePath: '/p/b.js' }
+    ]);
+  });
+
+  it('writes the merge result when the plan has no operation for the file', () => {
+    const operations = applyDriftResolutions(
+      [{ type: 'delete', filePath: '/p/b.js' }],
+      new Map([['/p/a.js', { action: 'merge' as const, content: 'merged' }]])
+    );
+
+    expect(operations).toEqual([
+      { type: 'delete', filePath: '/p/b.js' },
+      expect.objectContaining({
+        type: 'writeWithReplace',
+        filePath: '/p/a.js',
+        content: 'merged'
+      })
+    ]);
+  });
+
+  it('drops every operation touching a skipped file', () => {
+    const operations = applyDriftResolutions(
+      [
+        { type: 'move', oldPath: '/p/a.js', newPath: '/p/c.js' },
+        { type: 'delete', filePath: '/p/b.js' }
+      ],
+      new Map([['/p/c.js', { action: 'skip' as const }]])
+    );
+
+    expect(operations).toEqual([{ type: 'delete', filePath: '/p/b.js' }]);
+  });
+});
@@ -0,0 +1,340 @@
+import * as fs from 'fs/promises';
+import inquirer from 'inquirer';
+
+import { HistoryEntry } from '../commands/history';
+import { CliStyle } from '../utils/cli-style';
+import { hashContent } from '../utils/file-utils';
+import { mergeThreeWay } from '../utils/merge-utils';
+import { FileOperation } from './operation-schema';
+import { getTouchedPaths } from './plan-executor';
+import {
+  formatUnifiedDiff,
+  toDisplayPath,
+  VirtualWorkspace
+} from './plan-preview';
+
+/**
+ * 与历史记录预期状态不一致的文件。
+ */
+export interface DriftedFile {
+  filePath: string;
+  /** 计划执行前的内容；null 表示文件不存在，undefined 表示未记录。 */
+  original: string | null | undefined;
+  /** AI 计划的执行结果；null 表示文件不存在，undefined 表示无法重建。 */
+  result: string | null | undefined;
+  /** 当前磁盘内容。 */
+  current: string | null;
+  /** 三方内容是否齐全，可以进行三方合并。 */
+  mergeable: boolean;
+}
+
+/**
+ * 用户对单个不一致文件的处理方式。
+ */
+export type DriftResolution =
+  | { action: 'merge'; content: string }
+  | { action: 'overwrite' }
+  | { action: 'skip' };
+
+type DriftDirection = 'undo' | 'redo';
+
+/**
+ * 获取历史记录实际执行的文件操作：逐块审查等修改过计划时为记录的执行操作，否则为计划中的文件操作。
+ * @param entry - 历史记录条目。
+ * @returns 文件操作列表。
+ */
+export function getAppliedOperations(entry: HistoryEntry): FileOperation[] {
+  return (
+    entry.appliedOperations ??
+    entry.operations.filter((op): op is FileOperation => op.type !== 'response')
+  );
+}
+
+async function readCurrent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 获取计划执行前各路径的内容，未备份的路径视为不存在。
+ * @param entry - 历史记录条目（需已加载内容）。
+ * @returns 路径到执行前内容的映射，null 表示文件不存在。
+ */
+export function getOriginalFiles(
+  entry: HistoryEntry
+): Map<string, string | null> {
+  const originals = new Map<string, string | null>();
+  for (const op of getAppliedOperations(entry)) {
+    for (const filePath of getTouchedPaths(op)) {
+      originals.set(filePath, entry.originalFileContents?.[filePath] ?? null);
+    }
+  }
+  return originals;
+}
+
+/**
+ * 基于执行前内容在内存中重放计划，重建 AI 计划的执行结果。
+ * @returns 各路径的执行结果；重放失败时返回 null。
+ */
+async function simulateResult(
+  entry: HistoryEntry
+): Promise<Map<string, string | null> | null> {
+  const originals = getOriginalFiles(entry);
+  const workspace = new VirtualWorkspace(originals);
+  try {
+    for (const op of getAppliedOperations(entry)) {
+      const { after } = await workspace.preview(op);
+      workspace.commit(op, after);
+    }
+  } catch {
+    return null;
+  }
+  const results = new Map<string, string | null>();
+  for (const filePath of originals.keys()) {
+    results.set(filePath, await workspace.read(filePath));
+  }
+  return results;
+}
+
+/**
+ * 根据路径列表构造不一致文件的详细信息。
+ */
+async function describeDrift(
+  entry: HistoryEntry,
+  paths: Array<{ filePath: string; current: string | null }>
+): Promise<DriftedFile[]> {
+  if (paths.length === 0) return [];
+  const results = await simulateResult(entry);
+  const movedPaths = new Set(
+    getAppliedOperations(entry)
+      .filter((op) => op.type === 'move')
+      .flatMap(getTouchedPaths)
+  );
+
+  return paths.map(({ filePath, current }) => {
+    const original = entry.originalFileContents?.[filePath];
+    const result = results?.get(filePath) ?? undefined;
+    return {
+      filePath,
+      original,
+      result,
+      current,
+      mergeable:
+        typeof original === 'string' &&
+        typeof result === 'string' &&
+        current !== null &&
+        !movedPaths.has(filePath)
+    };
+  });
+}
+
+/**
+ * 检测撤销前自计划执行后被修改过的文件（当前内容与记录的执行结果哈希不一致）。
+ * @param entry - 历史记录条目。
+ * @returns 不一致的文件；没有记录执行结果哈希时返回空数组。
+ */
+export async function findUndoDrift(
+  entry: HistoryEntry
+): Promise<DriftedFile[]> {
+  const drifted: Array<{ filePath: string; current: string | null }> = [];
+  for (const [filePath, hash] of Object.entries(entry.resultFileHashes ?? {})) {
+    const current = await readCurrent(filePath);
+    if ((current === null ? null : hashContent(current)) !== hash) {
+      drifted.push({ filePath, current });
+    }
+  }
+  return describeDrift(entry, drifted);
+}
+
+/**
+ * 检测重做前与计划执行前状态不一致的文件。
+ * 仅检查执行前状态已知的路径：有备份内容的文件，以及记录为不存在或由计划新建的文件。
+ * @param entry - 历史记录条目。
+ * @returns 不一致的文件。
+ */
+export async function findRedoDrift(
+  entry: HistoryEntry
+): Promise<DriftedFile[]> {
+  const expected = new Map<string, string | null>();
+  for (const op of getAppliedOperations(entry)) {
+    for (const filePath of getTouchedPaths(op)) {
+      if (expected.has(filePath)) continue;
+      const original = entry.originalFileContents?.[filePath];
+      if (original !== undefined) {
+        expected.set(filePath, original);
+      } else if (
+        entry.absentPaths?.includes(filePath) ||
+        (op.type === 'create' && op.filePath === filePath) ||
+        (op.type === 'move' && op.newPath === filePath)
+      ) {
+        expected.set(filePath, null);
+      }
+    }
+  }
+
+  const drifted: Array<{ filePath: string; current: string | null }> = [];
+  for (const [filePath, original] of expected) {
+    const current = await readCurrent(filePath);
+    if (current !== original) {
+      drifted.push({ filePath, current });
+    }
+  }
+  return describeDrift(entry, drifted);
+}
+
+/**
+ * 以三方差异的形式显示不一致的文件：计划所做的更改，以及当前内容与预期状态的差异。
+ */
+function showThreeWayDiff(file: DriftedFile, direction: DriftDirection): void {
+  const name = toDisplayPath(file.filePath);
+  console.log(`\n${CliStyle.filePath(name)}`);
+
+  if (file.original !== undefined && file.result !== undefined) {
+    console.log(CliStyle.muted('计划的更改 (执行前 → AI 结果):'));
+    console.log(
+      formatUnifiedDiff(
+        `${name} (执行前)`,
+        `${name} (AI 结果)`,
+        file.original ?? '',
+        file.result ?? ''
+      ) || CliStyle.muted('(内容无变化)')
+    );
+  }
+
+  const expected = direction === 'undo' ? file.result : file.original;
+  if (expected !== undefined) {
+    const label = direction === 'undo' ? 'AI 结果' : '执行前';
+    console.log(CliStyle.muted(`之后的修改 (${label} → 当前):`));
+    console.log(
+      formatUnifiedDiff(
+        `${name} (${label})`,
+        `${name} (当前)`,
+        expected ?? '',
+        file.current ?? ''
+      ) || CliStyle.muted('(内容无变化)')
+    );
+  } else {
+    console.log(CliStyle.warning('无法重建预期内容，仅能覆盖或跳过。'));
+  }
+}
+
+/**
+ * 逐个显示不一致的文件并询问处理方式：三方合并、覆盖或跳过。
+ * @param driftedFiles - 不一致的文件。
+ * @param direction - 撤销或重做。
+ * @returns 路径到处理方式的映射；用户取消时返回 null。
+ */
+export async function resolveDrift(
+  driftedFiles: DriftedFile[],
+  direction: DriftDirection
+): Promise<Map<string, DriftResolution> | null> {
+  console.log(
+    CliStyle.warning(
+      direction === 'undo'
+        ? `\n检测到 ${driftedFiles.length} 个文件在计划执行后被修改:`
+        : `\n检测到 ${driftedFiles.length} 个文件与计划执行前的状态不一致:`
+    )
+  );
+
+  const resolutions = new Map<string, DriftResolution>();
+  for (const file of driftedFiles) {
+    showThreeWayDiff(file, direction);
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `如何处理 ${toDisplayPath(file.filePath)}？`,
+        default: file.mergeable ? 'merge' : 'skip',
+        choices: [
+          ...(file.mergeable
+            ? [{ name: '三方合并（保留之后的修改）', value: 'merge' }]
+            : []),
+          {
+            name:
+              direction === 'undo'
+                ? '覆盖为执行前的内容（丢弃之后的修改）'
+                : '仍然执行原操作',
+            value: 'overwrite'
+          },
+          { name: '跳过该文件（保持当前内容）', value: 'skip' },
+          { name: '取消', value: 'cancel' }
+        ]
+      }
+    ]);
+
+    if (action === 'cancel') return null;
+    if (action !== 'merge') {
+      resolutions.set(file.filePath, { action });
+      continue;
+    }
+
+    // 撤销：从当前内容中去掉计划的更改；重做：将计划的更改合入当前内容
+    const merged =
+      direction === 'undo'
+        ? mergeThreeWay(file.result!, file.current!, file.original!, {
+            ours: '当前内容',
+            theirs: '执行前'
+          })
+        : mergeThreeWay(file.original!, file.current!, file.result!, {
+            ours: '当前内容',
+            theirs: 'AI 结果'
+          });
+    if (merged.conflicts > 0) {
+      console.log(
+        CliStyle.warning(
+          `合并存在 ${merged.conflicts} 处冲突，将写入冲突标记，请在应用后手动解决。`
+        )
+      );
+    }
+    resolutions.set(file.filePath, {
+      action: 'merge',
+      content: merged.content
+    });
+  }
+  return resolutions;
+}
+
+/**
+ * 按处理方式调整计划：跳过的文件移除相关操作，合并的文件将内容操作替换为写入合并结果。
+ * 计划中没有该文件的内容操作时，在末尾追加写入合并结果的操作。
+ * @param operations - 撤销或重做的操作列表。
+ * @param resolutions - 路径到处理方式的映射。
+ * @returns 调整后的操作列表。
+ */
+export function applyDriftResolutions(
+  operations: FileOperation[],
+  resolutions: Map<string, DriftResolution>
+): FileOperation[] {
+  let result = [...operations];
+  for (const [filePath, resolution] of resolutions) {
+    if (resolution.action === 'skip') {
+      result = result.filter((op) => !getTouchedPaths(op).includes(filePath));
+    } else if (resolution.action === 'merge') {
+      const mergedOp: FileOperation = {
+        type: 'writeWithReplace',
+        filePath,
+        content: resolution.content,
+        comment: `三方合并: ${toDisplayPath(filePath)}`
+      };
+      const indices = result
+        .map((op, index) =>
+          op.type !== 'move' && op.filePath === filePath ? index : -1
+        )
+        .filter((index) => index !== -1);
+      if (indices.length === 0) {
+        result.push(mergedOp);
+        continue;
+      }
+      const last = indices[indices.length - 1];
+      result = result.flatMap((op, index): FileOperation[] => {
+        if (index === last) return [mergedOp];
+        return indices.includes(index) ? [] : [op];
+      });
+    }
+  }
+  return result;
+}
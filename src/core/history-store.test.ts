@@ -0,0 +1,217 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HistoryEntry } from '../commands/history';
+import {
+  getHistoryDir,
+  getHistoryIndexFile,
+  loadEntryContents,
+  migrateHistoryStores,
+  pruneHistoryStores,
+  readProjectHistory,
+  updateProjectHistory
+} from './history-store';
+
+let root: string;
+let project: string;
+let logs: string[];
+const originalHome = process.env.HOME;
+const originalCwd = process.cwd();
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mai-history-'));
+  project = path.join(root, 'project');
+  await fs.mkdir(path.join(project, '.git'), { recursive: true });
+  await fs.mkdir(path.join(root, 'home'));
+  process.env.HOME = path.join(root, 'home');
+  process.chdir(project);
+
+  logs = [];
+  vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+    logs.push(args.map(String).join(' '));
+  });
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  process.chdir(originalCwd);
+  process.env.HOME = originalHome;
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+function makeEntry(id: string, minute: number, response = id): HistoryEntry {
+  return {
+    id,
+    timestamp: `2026-01-01T00:${String(minute).padStart(2, '0')}:00.000Z`,
+    prompt: `prompt ${id}`,
+    aiResponse: response,
+    operations: [
+      {
+        type: 'create',
+        filePath: path.join(project, 'src', `${id}.txt`),
+        content: id
+      }
+    ],
+    originalFileContents: { [path.join(project, 'src', `${id}.txt`)]: '' }
+  };
+}
+
+async function readIndexLines(): Promise<string[]> {
+  const content = await fs.readFile(getHistoryIndexFile(project), 'utf-8');
+  return content.split('\n').filter((line) => line.trim());
+}
+
+/** 将所有 blob 的修改时间设为两小时前，使其超出清理的保护期。 */
+async function ageBlobs(): Promise<void> {
+  const blobDir = path.join(getHistoryDir(), 'blobs');
+  const past = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  for (const prefix of await fs.readdir(blobDir)) {
+    for (const name of await fs.readdir(path.join(blobDir, prefix))) {
+      await fs.utimes(path.join(blobDir, prefix, name), past, past);
+    }
+  }
+}
+
+describe('history store', () => {
+  it('stores relative paths in the index and contents as blobs', async () => {
+    await updateProjectHistory(project, () => [makeEntry('a', 1)]);
+
+    const [header, record] = await readIndexLines();
+    expect(JSON.parse(header)).toEqual({ version: 2, root: project });
+    expect(record).toContain('"filePath":"src/a.txt"');
+    expect(record).not.toContain('"aiResponse":"a"');
+
+    const [entry] = await readProjectHistory(project);
+    expect(entry.aiResponse).toBeUndefined();
+    await loadEntryContents(entry);
+    expect(entry.aiResponse).toBe('a');
+    expect(entry.originalFileContents).toEqual({
+      [path.join(project, 'src', 'a.txt')]: ''
+    });
+  });
+
+  it('appends only changes and compacts an index full of stale records', async () => {
+    await updateProjectHistory(project, () => [makeEntry('a', 1)]);
+    await updateProjectHistory(project, (history) => {
+      history[0].applied = true;
+    });
+    await updateProjectHistory(project, (history) => history);
+    expect(await readIndexLines()).toHaveLength(3);
+
+    for (let i = 0; i < 100; i++) {
+      await updateProjectHistory(project, (history) => {
+        history[0].tags = [`t${i}`];
+      });
+    }
+    const lines = await readIndexLines();
+    expect(lines.length).toBeLessThan(100);
+
+    const [entry] = await readProjectHistory(project);
+    expect(entry.applied).toBe(true);
+    expect(entry.tags).toEqual(['t99']);
+  });
+
+  it('skips corrupt lines and backs up the index before rewriting it', async () => {
+    await updateProjectHistory(project, () => [
+      makeEntry('b', 2),
+      makeEntry('a', 1)
+    ]);
+    const indexFile = getHistoryIndexFile(project);
+    await fs.appendFile(indexFile, '{"entry":{"id":"c",\n');
+
+    const history = await readProjectHistory(project);
+    expect(history.map((entry) => entry.id)).toEqual(['b', 'a']);
+    expect(logs.join('\n')).toContain('1 行无法解析');
+
+    await updateProjectHistory(project, (entries) => entries);
+    const backups = (await fs.readdir(path.dirname(indexFile))).filter((name) =>
+      name.includes('.corrupt-')
+    );
+    expect(backups).toHaveLength(1);
+    expect(await readIndexLines()).toHaveLength(3);
+    expect(
+      (await readProjectHistory(project)).map((entry) => entry.id)
+    ).toEqual(['b', 'a']);
+  });
+
+  it('migrates legacy global and per-project JSON histories', async () => {
+    const maiDir = path.join(process.env.HOME!, '.mai');
+    await fs.mkdir(getHistoryDir(), { recursive: true });
+    await fs.writeFile(
+      path.join(maiDir, 'history.json'),
+      JSON.stringify([makeEntry('a', 1)])
+    );
+    const stored = makeEntry('b', 2);
+    await fs.writeFile(
+      path.join(getHistoryDir(), 'project.json'),
+      JSON.stringify({
+        root: project,
+        entries: [
+          {
+            ...stored,
+            operations: [
+              { type: 'create', filePath: 'src/b.txt', content: 'b' }
+            ]
+          }
+        ]
+      })
+    );
+
+    await migrateHistoryStores();
+
+    const history = await readProjectHistory(project);
+    expect(history.map((entry) => entry.id)).toEqual(['b', 'a']);
+    expect(history[0].operations[0]).toMatchObject({
+      filePath: path.join(project, 'src', 'b.txt')
+    });
+    await loadEntryContents(history[1]);
+    expect(history[1].aiResponse).toBe('a');
+    await expect(
+      fs.access(path.join(maiDir, 'history.json.bak'))
+    ).resolves.toBeUndefined();
+    await expect(
+      fs.access(path.join(getHistoryDir(), 'project.json.bak'))
+    ).resolves.toBeUndefined();
+
+    // 再次迁移不会产生重复记录
+    await migrateHistoryStores();
+    expect(await readProjectHistory(project)).toHaveLength(2);
+  });
+
+  it('removes blobs only referenced by pruned entries', async () => {
+    await updateProjectHistory(project, () => [
+      makeEntry('b', 2, 'kept response'),
+      makeEntry('a', 1, 'pruned response')
+    ]);
+    await ageBlobs();
+
+    const result = await pruneHistoryStores({ maxEntries: 1, maxAgeDays: 0 });
+
+    // 两个条目共享相同的原始文件内容，只有被移除条目的 AI 响应不再被引用
+    expect(result).toMatchObject({ entries: 1, blobs: 1 });
+    const [entry] = await readProjectHistory(project);
+    expect(entry.id).toBe('b');
+    await loadEntryContents(entry);
+    expect(entry.aiResponse).toBe('kept response');
+    expect(entry.originalFileContents).toEqual({
+      [path.join(project, 'src', 'b.txt')]: ''
+    });
+  });
+
+  it('keeps blobs referenced by an index without a project root', async () => {
+    await updateProjectHistory(project, () => [makeEntry('a', 1, 'orphan')]);
+    const [, record] = await readIndexLines();
+    const orphanDir = path.join(getHistoryDir(), 'orphan');
+    await fs.mkdir(orphanDir);
+    await fs.writeFile(path.join(orphanDir, 'index.jsonl'), `${record}\n`);
+    await updateProjectHistory(project, () => []);
+    await ageBlobs();
+
+    const result = await pruneHistoryStores({ maxEntries: 0, maxAgeDays: 0 });
+
+    expect(result.blobs).toBe(0);
+    expect(logs.join('\n')).toContain('跳过保留策略');
+  });
+});
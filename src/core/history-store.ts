@@ -0,0 +1,650 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { HistoryContentRefs, HistoryEntry } from '../commands/history';
+import {
+  HISTORY_BLOB_DIR_NAME,
+  HISTORY_DIR_NAME,
+  HISTORY_FILE_NAME,
+  HISTORY_INDEX_FILE_NAME,
+  MAI_CONFIG_DIR_NAME
+} from '../constants/mai-data';
+import {
+  putBlob,
+  readBlob,
+  removeUnreferencedBlobs
+} from '../utils/blob-store';
+import { CliStyle } from '../utils/cli-style';
+import { withFileLock } from '../utils/file-lock';
+import { findGitRoot, hashContent, writeFileAtomic } from '../utils/file-utils';
+import { FileOperation } from './operation-schema';
+import { getTouchedPaths } from './plan-executor';
+
+/** 索引文件格式版本。 */
+const INDEX_VERSION = 2;
+
+/** 索引行数超过该值且大部分为过期记录时，重写索引。 */
+const COMPACT_MIN_LINES = 100;
+
+/**
+ * 索引文件中的一行：文件头、条目的最新版本，或条目删除标记。
+ * 条目中的路径相对于项目根目录存储，文件内容和 AI 响应以 blob 哈希引用。
+ */
+type IndexRecord =
+  | { version: number; root: string }
+  | { entry: HistoryEntry }
+  | { deleted: string };
+
+/**
+ * 读取后的项目索引。
+ */
+interface ProjectIndex {
+  root?: string;
+  /** 条目 ID 到其最新存储形式（JSON）的映射。 */
+  records: Map<string, string>;
+  lineCount: number;
+  /** 无法解析的行数，例如写入中断留下的不完整行或被手动修改的内容。 */
+  corruptLines: number;
+}
+
+/**
+ * 某个项目的历史记录。
+ */
+export interface ProjectHistory {
+  root: string;
+  /** 按时间倒序排列的条目，路径为绝对路径，内容未加载。 */
+  entries: HistoryEntry[];
+}
+
+/**
+ * 历史记录保留策略。0 表示不限制。
+ */
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+/**
+ * 获取历史记录目录。每个项目的历史记录单独存放在该目录下的子目录中。
+ */
+export function getHistoryDir(): string {
+  return path.join(os.homedir(), MAI_CONFIG_DIR_NAME, HISTORY_DIR_NAME);
+}
+
+/**
+ * 获取所有项目共享的 blob 存储目录。
+ */
+function getBlobDir(): string {
+  return path.join(getHistoryDir(), HISTORY_BLOB_DIR_NAME);
+}
+
+/**
+ * 获取项目历史记录的存放名称，由项目目录名和根目录路径的哈希组成。
+ */
+function getProjectKey(root: string): string {
+  const name = path.basename(root).replace(/[^\w.-]/g, '_') || 'root';
+  const hash = hashContent(path.resolve(root)).slice(0, 12);
+  return `${name}-${hash}`;
+}
+
+/**
+ * 获取项目的历史记录索引文件路径。
+ * @param root - 项目根目录。
+ */
+export function getHistoryIndexFile(root: string): string {
+  return path.join(
+    getHistoryDir(),
+    getProjectKey(root),
+    HISTORY_INDEX_FILE_NAME
+  );
+}
+
+/**
+ * 将绝对路径转换为相对于项目根目录的存储路径。
+ */
+function toStoredPath(root: string, filePath: string): string {
+  const relative = path.relative(root, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    ? relative.split(path.sep).join('/')
+    : filePath;
+}
+
+/**
+ * 将存储路径解析为基于项目根目录的绝对路径。
+ */
+function fromStoredPath(root: string, filePath: string): string {
+  return path.resolve(root, filePath);
+}
+
+/**
+ * 转换历史记录条目中的所有文件路径。
+ */
+function mapEntryPaths(
+  entry: HistoryEntry,
+  mapPath: (filePath: string) => string
+): HistoryEntry {
+  const mapKeys = <T>(record?: Record<string, T>) =>
+    record &&
+    Object.fromEntries(
+      Object.entries(record).map(([filePath, value]) => [
+        mapPath(filePath),
+        value
+      ])
+    );
+
+  const mapOperation = (op: FileOperation): FileOperation =>
+    op.type === 'move'
+      ? { ...op, oldPath: mapPath(op.oldPath), newPath: mapPath(op.newPath) }
+      : { ...op, filePath: mapPath(op.filePath) };
+
+  return {
+    ...entry,
+    operations: entry.operations.map((op) =>
+      op.type === 'response' ? op : mapOperation(op)
+    ),
+    appliedOperations: entry.appliedOperations?.map(mapOperation),
+    originalFileContents: mapKeys(entry.originalFileContents),
+    contentRefs: entry.contentRefs && {
+      ...entry.contentRefs,
+      originalFileContents: mapKeys(entry.contentRefs.originalFileContents)
+    },
+    resultFileHashes: mapKeys(entry.resultFileHashes),
+    absentPaths: entry.absentPaths?.map(mapPath),
+    createdDirs: entry.createdDirs?.map(mapPath),
+    rejectedHunks: entry.rejectedHunks?.map((hunk) => ({
+      ...hunk,
+      filePath: mapPath(hunk.filePath)
+    }))
+  };
+}
+
+/**
+ * 将条目从一个项目根目录迁移到另一个：项目内的路径按相同的相对位置解析。
+ * @param entry - 历史记录条目（绝对路径）。
+ * @param fromRoot - 条目原来所属的项目根目录。
+ * @param toRoot - 目标项目根目录。
+ */
+export function rebaseEntry(
+  entry: HistoryEntry,
+  fromRoot: string,
+  toRoot: string
+): HistoryEntry {
+  return mapEntryPaths(entry, (filePath) =>
+    fromStoredPath(toRoot, toStoredPath(fromRoot, filePath))
+  );
+}
+
+/**
+ * 将条目转换为存储形式：文件内容和 AI 响应写入 blob 存储并以哈希引用，路径转换为相对路径。
+ * 未加载内容的条目沿用已有的哈希引用。
+ */
+async function toStoredEntry(
+  root: string,
+  entry: HistoryEntry
+): Promise<HistoryEntry> {
+  const { originalFileContents, aiResponse, ...rest } = entry;
+  const contentRefs: HistoryContentRefs = { ...entry.contentRefs };
+
+  if (originalFileContents !== undefined) {
+    const hashes: Record<string, string> = {};
+    for (const [filePath, content] of Object.entries(originalFileContents)) {
+      hashes[filePath] = await putBlob(getBlobDir(), content);
+    }
+    contentRefs.originalFileContents = hashes;
+  }
+  if (aiResponse !== undefined) {
+    contentRefs.aiResponse = await putBlob(getBlobDir(), aiResponse);
+  }
+
+  const hasRefs = Boolean(
+    contentRefs.originalFileContents || contentRefs.aiResponse
+  );
+  return mapEntryPaths(
+    { ...rest, contentRefs: hasRefs ? contentRefs : undefined },
+    (filePath) => toStoredPath(root, filePath)
+  );
+}
+
+/**
+ * 读取项目索引文件。无法解析的行会被跳过并计入 corruptLines，其余记录照常读取。
+ * @returns 索引内容；文件不存在时返回 null。
+ * @throws {Error} 如果文件存在但无法读取。
+ */
+async function readIndex(indexFile: string): Promise<ProjectIndex | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(indexFile, 'utf-8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') return null;
+    throw error;
+  }
+
+  const index: ProjectIndex = {
+    records: new Map(),
+    lineCount: 0,
+    corruptLines: 0
+  };
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    index.lineCount++;
+    let record: IndexRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      index.corruptLines++;
+      continue;
+    }
+    if (!record || typeof record !== 'object') {
+      index.corruptLines++;
+    } else if ('root' in record) {
+      index.root = record.root;
+    } else if ('entry' in record) {
+      index.records.set(record.entry.id, JSON.stringify(record.entry));
+    } else if ('deleted' in record) {
+      index.records.delete(record.deleted);
+    }
+  }
+  return index;
+}
+
+/**
+ * 将索引中的存储条目解析为按时间倒序排列的条目（绝对路径，内容未加载）。
+ */
+function parseIndexEntries(root: string, index: ProjectIndex): HistoryEntry[] {
+  return [...index.records.values()]
+    .map((record) =>
+      mapEntryPaths(JSON.parse(record) as HistoryEntry, (filePath) =>
+        fromStoredPath(root, filePath)
+      )
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * 读取项目的历史记录。只读取索引，文件内容和 AI 响应需通过 loadEntryContents 按需加载。
+ * @param root - 项目根目录。
+ * @returns 按时间倒序排列的条目，路径为绝对路径。
+ */
+export async function readProjectHistory(
+  root: string
+): Promise<HistoryEntry[]> {
+  const indexFile = getHistoryIndexFile(root);
+  const index = await readIndex(indexFile);
+  if (!index) return [];
+  if (index.corruptLines > 0) {
+    console.log(
+      CliStyle.warning(
+        `历史记录索引 ${indexFile} 中有 ${index.corruptLines} 行无法解析，已忽略；下次写入时会备份原文件并重写。`
+      )
+    );
+  }
+  return parseIndexEntries(root, index);
+}
+
+/**
+ * 读取所有项目的历史记录，按最近一次记录的时间倒序排列。
+ */
+export async function readAllProjectHistories(): Promise<ProjectHistory[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(getHistoryDir());
+  } catch {
+    return [];
+  }
+
+  const projects: ProjectHistory[] = [];
+  for (const name of names) {
+    if (name === HISTORY_BLOB_DIR_NAME) continue;
+    const indexFile = path.join(getHistoryDir(), name, HISTORY_INDEX_FILE_NAME);
+    let index: ProjectIndex | null;
+    try {
+      index = await readIndex(indexFile);
+    } catch (error) {
+      console.log(
+        CliStyle.warning(
+          `无法读取历史记录索引 ${indexFile}，已跳过: ${(error as Error).message}`
+        )
+      );
+      continue;
+    }
+    if (!index?.root || index.records.size === 0) continue;
+    projects.push({
+      root: index.root,
+      entries: parseIndexEntries(index.root, index)
+    });
+  }
+  return projects.sort((a, b) =>
+    b.entries[0].timestamp.localeCompare(a.entries[0].timestamp)
+  );
+}
+
+/**
+ * 保存项目的历史记录。只向索引追加发生变化的条目和删除标记，不重写未变化的内容；
+ * 过期记录过多、存在无法解析的行或指定 compact 时重写索引（无法解析时先备份原文件）。
+ * 调用方需持有索引文件的锁。
+ */
+async function writeProjectHistory(
+  root: string,
+  indexFile: string,
+  index: ProjectIndex | null,
+  history: HistoryEntry[],
+  compact: boolean
+): Promise<void> {
+  const current = index?.records ?? new Map<string, string>();
+
+  const records = new Map<string, string>();
+  // 按时间顺序写入，使索引中较新的条目位于后面
+  for (const entry of [...history].reverse()) {
+    records.set(entry.id, JSON.stringify(await toStoredEntry(root, entry)));
+  }
+
+  const lines: string[] = [];
+  for (const [id, record] of records) {
+    if (current.get(id) !== record) lines.push(`{"entry":${record}}`);
+  }
+  for (const id of current.keys()) {
+    if (!records.has(id)) lines.push(JSON.stringify({ deleted: id }));
+  }
+
+  if (index && index.corruptLines > 0) {
+    const backupFile = `${indexFile}.corrupt-${Date.now()}`;
+    await fs.copyFile(indexFile, backupFile);
+    console.log(
+      CliStyle.warning(
+        `历史记录索引中有 ${index.corruptLines} 行无法解析，原文件已备份到 ${backupFile}，索引将被重写。`
+      )
+    );
+  }
+
+  const lineCount = (index?.lineCount ?? 0) + lines.length;
+  if (
+    !index ||
+    compact ||
+    index.corruptLines > 0 ||
+    (lineCount > COMPACT_MIN_LINES && lineCount > records.size * 2)
+  ) {
+    const content = [
+      JSON.stringify({ version: INDEX_VERSION, root }),
+      ...[...records.values()].map((record) => `{"entry":${record}}`)
+    ].join('\n');
+    await writeFileAtomic(indexFile, `${content}\n`);
+  } else if (lines.length > 0) {
+    await fs.appendFile(indexFile, `${lines.join('\n')}\n`, 'utf-8');
+  }
+}
+
+/**
+ * 在索引文件锁的保护下读取、修改并保存项目的历史记录，避免并发的 mai 进程互相覆盖。
+ * 修改函数中不能再次修改同一项目的历史记录（锁不可重入）。
+ * @param root - 项目根目录。
+ * @param mutate - 修改函数，接收按时间倒序排列的条目（绝对路径，内容未加载），
+ *   可直接修改数组，或返回新的数组。
+ * @param compact - 是否强制重写索引。
+ */
+export async function updateProjectHistory(
+  root: string,
+  mutate: (
+    history: HistoryEntry[]
+  ) => HistoryEntry[] | void | Promise<HistoryEntry[] | void>,
+  compact: boolean = false
+): Promise<void> {
+  const indexFile = getHistoryIndexFile(root);
+  await withFileLock(indexFile, async () => {
+    const index = await readIndex(indexFile);
+    const history = index ? parseIndexEntries(root, index) : [];
+    const updated = (await mutate(history)) ?? history;
+    await writeProjectHistory(root, indexFile, index, updated, compact);
+  });
+}
+
+/**
+ * 从 blob 存储中加载条目的文件内容和 AI 响应。已加载的内容不会重复读取。
+ * 丢失的 blob 会输出警告并跳过。
+ * @param entry - 历史记录条目，加载的内容直接写入该对象。
+ * @returns 同一个条目。
+ */
+export async function loadEntryContents(
+  entry: HistoryEntry
+): Promise<HistoryEntry> {
+  const refs = entry.contentRefs;
+  const read = async (hash: string): Promise<string | undefined> => {
+    try {
+      return await readBlob(getBlobDir(), hash);
+    } catch {
+      console.log(
+        CliStyle.warning(
+          `历史记录 ${entry.id} 引用的内容 ${hash.slice(0, 12)} 已丢失。`
+        )
+      );
+      return undefined;
+    }
+  };
+
+  if (refs?.aiResponse && entry.aiResponse === undefined) {
+    entry.aiResponse = await read(refs.aiResponse);
+  }
+  if (refs?.originalFileContents && entry.originalFileContents === undefined) {
+    const contents: Record<string, string> = {};
+    for (const [filePath, hash] of Object.entries(refs.originalFileContents)) {
+      const content = await read(hash);
+      if (content !== undefined) contents[filePath] = content;
+    }
+    entry.originalFileContents = contents;
+  }
+  return entry;
+}
+
+/**
+ * 按保留策略筛选历史记录。
+ * @param history - 按时间倒序排列的条目。
+ * @param retention - 保留策略。
+ * @returns 保留的条目。
+ */
+export function applyRetention(
+  history: HistoryEntry[],
+  retention: HistoryRetention
+): HistoryEntry[] {
+  const cutoff =
+    retention.maxAgeDays > 0
+      ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000
+      : -Infinity;
+  return history
+    .filter((entry) => Date.parse(entry.timestamp) >= cutoff)
+    .slice(0, retention.maxEntries > 0 ? retention.maxEntries : undefined);
+}
+
+/**
+ * 对所有项目应用保留策略，重写索引，并删除不再被引用的 blob。
+ * 缺少文件头或所在位置与项目根目录不对应的索引不应用保留策略，但其引用的 blob 同样保留；
+ * 任一索引无法读取时中止清理，以免误删仍被引用的 blob。
+ * @param retention - 保留策略。
+ * @returns 移除的条目数、删除的 blob 数和释放的字节数。
+ * @throws {Error} 如果某个项目的索引文件存在但无法读取。
+ */
+export async function pruneHistoryStores(
+  retention: HistoryRetention
+): Promise<{ entries: number; blobs: number; bytes: number }> {
+  await migrateHistoryStores();
+  let removedEntries = 0;
+  const referenced = new Set<string>();
+  const addRefs = (entry: HistoryEntry) => {
+    const refs = entry.contentRefs;
+    if (refs?.aiResponse) referenced.add(refs.aiResponse);
+    Object.values(refs?.originalFileContents ?? {}).forEach((hash) =>
+      referenced.add(hash)
+    );
+  };
+
+  let names: string[];
+  try {
+    names = await fs.readdir(getHistoryDir());
+  } catch {
+    names = [];
+  }
+
+  for (const name of names) {
+    if (name === HISTORY_BLOB_DIR_NAME) continue;
+    const indexFile = path.join(getHistoryDir(), name, HISTORY_INDEX_FILE_NAME);
+    let index: ProjectIndex | null;
+    try {
+      index = await readIndex(indexFile);
+    } catch (error) {
+      throw new Error(
+        `无法读取历史记录索引 ${indexFile}，已中止清理以免删除仍被引用的内容: ${(error as Error).message}`
+      );
+    }
+    if (!index || index.records.size === 0) continue;
+
+    // 保留策略通过项目根目录定位索引，无法对应到该索引时只收集引用
+    if (!index.root || getHistoryIndexFile(index.root) !== indexFile) {
+      console.log(
+        CliStyle.warning(
+          `历史记录索引 ${indexFile} 缺少项目根目录或与项目根目录不对应，跳过保留策略，但保留其引用的内容。`
+        )
+      );
+      for (const record of index.records.values()) {
+        addRefs(JSON.parse(record) as HistoryEntry);
+      }
+      continue;
+    }
+
+    await updateProjectHistory(
+      index.root,
+      (entries) => {
+        const kept = applyRetention(entries, retention);
+        removedEntries += entries.length - kept.length;
+        kept.forEach(addRefs);
+        return kept;
+      },
+      true
+    );
+  }
+
+  const { count, bytes } = await removeUnreferencedBlobs(
+    getBlobDir(),
+    referenced
+  );
+  return { entries: removedEntries, blobs: count, bytes };
+}
+
+/**
+ * 将条目合并到项目已有的历史记录中，按时间倒序排列。
+ */
+async function mergeIntoProject(
+  root: string,
+  entries: HistoryEntry[]
+): Promise<void> {
+  await updateProjectHistory(root, (existing) => {
+    const ids = new Set(existing.map((entry) => entry.id));
+    return [...existing, ...entries.filter((entry) => !ids.has(entry.id))].sort(
+      (a, b) => b.timestamp.localeCompare(a.timestamp)
+    );
+  });
+}
+
+/**
+ * 读取旧格式的 JSON 历史记录文件。无法解析的文件会被重命名为 .corrupt 并输出警告，
+ * 以免每次运行都重复尝试，同时保留原文件供手动恢复。
+ * @returns 解析后的内容；文件不存在或无法解析时返回 undefined。
+ */
+async function readLegacyJson<T>(file: string): Promise<T | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    await fs.rename(file, `${file}.corrupt`).catch(() => {});
+    console.log(
+      CliStyle.warning(
+        `无法解析旧版历史记录 ${file}，已跳过迁移并重命名为 ${file}.corrupt: ${(error as Error).message}`
+      )
+    );
+    return undefined;
+  }
+}
+
+/**
+ * 将旧版全局历史记录（~/.mai/history.json）按项目拆分到各项目的历史记录中。
+ * 条目所属项目由其第一个文件操作的路径确定，没有文件操作的条目归入当前项目。
+ * 迁移完成后旧文件被重命名为 history.json.bak。
+ */
+async function migrateGlobalHistory(): Promise<void> {
+  const legacyFile = path.join(
+    os.homedir(),
+    MAI_CONFIG_DIR_NAME,
+    HISTORY_FILE_NAME
+  );
+  const legacyEntries = await readLegacyJson<HistoryEntry[]>(legacyFile);
+  if (!legacyEntries) return;
+
+  const currentRoot = await findGitRoot();
+  const groups = new Map<string, HistoryEntry[]>();
+  for (const entry of legacyEntries) {
+    const fileOp = entry.operations.find(
+      (op): op is FileOperation => op.type !== 'response'
+    );
+    const root = fileOp
+      ? await findGitRoot(path.dirname(getTouchedPaths(fileOp)[0]))
+      : currentRoot;
+    groups.set(root, [...(groups.get(root) ?? []), entry]);
+  }
+
+  for (const [root, entries] of groups) {
+    await mergeIntoProject(root, entries);
+  }
+  // 并发的进程可能已完成迁移；条目按 ID 去重，重复迁移不会产生重复记录
+  await fs.rename(legacyFile, `${legacyFile}.bak`).catch(() => {});
+  console.log(
+    CliStyle.info(
+      `已将 ${legacyEntries.length} 条旧版历史记录按项目迁移到 ${getHistoryDir()}`
+    )
+  );
+}
+
+/**
+ * 将按项目存放的单文件 JSON 历史记录（<项目>.json）迁移为索引加 blob 存储的形式。
+ * 迁移完成后旧文件被重命名为 .json.bak。
+ */
+async function migrateProjectJsonFiles(): Promise<void> {
+  let names: string[];
+  try {
+    names = await fs.readdir(getHistoryDir());
+  } catch {
+    return;
+  }
+
+  for (const name of names.filter((n) => n.endsWith('.json'))) {
+    const file = path.join(getHistoryDir(), name);
+    const store = await readLegacyJson<{
+      root: string;
+      entries: HistoryEntry[];
+    }>(file);
+    if (!store) continue;
+    await mergeIntoProject(
+      store.root,
+      store.entries.map((entry) =>
+        mapEntryPaths(entry, (filePath) => fromStoredPath(store.root, filePath))
+      )
+    );
+    await fs.rename(file, `${file}.bak`).catch(() => {});
+    console.log(
+      CliStyle.info(
+        `已将项目 ${store.root} 的 ${store.entries.length} 条历史记录迁移为索引存储。`
+      )
+    );
+  }
+}
+
+/**
+ * 将旧格式的历史记录迁移到当前的存储格式。没有旧格式文件时不做任何事。
+ */
+export async function migrateHistoryStores(): Promise<void> {
+  await migrateGlobalHistory();
+  await migrateProjectJsonFiles();
+}
@@ -0,0 +1,376 @@
+import inquirer from 'inquirer';
+import { structuredPatch } from 'diff';
+
+import { CliStyle } from '../utils/cli-style';
+import { openInEditor } from '../utils/editor-utils';
+import { FileOperation } from './operation-schema';
+import {
+  colorizeDiffLine,
+  formatUnifiedDiff,
+  getPreviewPaths,
+  toDisplayPath,
+  VirtualWorkspace
+} from './plan-preview';
+
+/**
+ * 审查中被用户拒绝的更改。
+ */
+export interface RejectedHunk {
+  filePath: string;
+  /** 被拒绝更改的统一差异文本。 */
+  patch: string;
+  /** 所属操作的注释。 */
+  comment?: string;
+}
+
+/**
+ * 逐块审查的结果。
+ */
+export interface HunkReviewResult {
+  /** 根据接受的更改重建的操作列表。 */
+  operations: FileOperation[];
+  rejectedHunks: RejectedHunk[];
+}
+
+type Hunk = ReturnType<typeof structuredPatch>['hunks'][number];
+
+type HunkDecision =
+  | { action: 'accept' }
+  | { action: 'reject' }
+  | { action: 'skip' }
+  | { action: 'edit'; lines: string[] };
+
+type HunkChoice = 'accept' | 'reject' | 'edit' | 'acceptRest' | 'skip' | 'quit';
+
+/**
+ * 审查过程中每个操作的记录。
+ */
+interface ReviewedEntry {
+  /** 保留的操作；null 表示已移除。 */
+  op: FileOperation | null;
+  /** 操作是否修改文件内容（create/writeWithReplace/edit）。 */
+  isContentOp: boolean;
+  filePath: string;
+  /** 操作前文件是否不存在。 */
+  createdFile: boolean;
+  /** 审查后的文件内容。 */
+  after: string | null;
+}
+
+/**
+ * 提示用户对一个更改块作出选择。
+ * @param allowAcceptRest - 是否提供"接受该操作的剩余更改"选项（仅逐块审查时有意义）。
+ */
+async function promptHunkChoice(
+  message: string,
+  allowEdit: boolean,
+  allowAcceptRest = false
+): Promise<HunkChoice> {
+  const { choice } = await inquirer.prompt([
+    {
+      type: 'expand',
+      name: 'choice',
+      message,
+      default: 0,
+      choices: [
+        { key: 'y', name: '接受该更改', value: 'accept' },
+        { key: 'n', name: '拒绝该更改', value: 'reject' },
+        ...(allowEdit ? [{ key: 'e', name: '编辑该更改', value: 'edit' }] : []),
+        ...(allowAcceptRest
+          ? [{ key: 'a', name: '接受该操作的剩余更改', value: 'acceptRest' }]
+          : []),
+        { key: 's', name: '跳过该操作的剩余更改（保持原样）', value: 'skip' },
+        {
+          key: 'q',
+          name: '结束审查（剩余更改和后续操作均不应用）',
+          value: 'quit'
+        }
+      ]
+    }
+  ]);
+  return choice;
+}
+
+/**
+ * 将更改块格式化为统一差异文本。
+ */
+function formatHunk(hunk: Hunk): string {
+  return [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines
+  ].join('\n');
+}
+
+/**
+ * 根据每个更改块的决定，将更改块应用到原内容上。
+ * @param before - 原内容。
+ * @param hunks - 更改块（按位置排序，互不重叠）。
+ * @param decisions - 与更改块一一对应的决定；拒绝和跳过的更改块保留原内容。
+ * @returns 应用后的内容。
+ */
+function applyHunkDecisions(
+  before: string,
+  hunks: Hunk[],
+  decisions: HunkDecision[]
+): string {
+  const lines = before.split('\n');
+  const lineEnding = before.includes('\r\n') ? '\r' : '';
+  const result: string[] = [];
+  let cursor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const start = Math.max(hunk.oldStart - 1, 0);
+    result.push(...lines.slice(cursor, start));
+
+    const decision = decisions[index];
+    const hunkLines = hunk.lines.filter((line) => !line.startsWith('\\'));
+    if (decision.action === 'accept') {
+      result.push(
+        ...hunkLines.filter((l) => !l.startsWith('-')).map((l) => l.slice(1))
+      );
+    } else if (decision.action === 'edit') {
+      result.push(...decision.lines.map((l) => l + lineEnding));
+    } else {
+      result.push(
+        ...hunkLines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1))
+      );
+    }
+    cursor = start + hunk.oldLines;
+  });
+  result.push(...lines.slice(cursor));
+  return result.join('\n');
+}
+
+/**
+ * 在编辑器中编辑更改块的新内容。
+ * @returns 编辑后的行；内容为空时返回空数组（相当于删除该区域）。
+ */
+async function editHunk(hunk: Hunk): Promise<string[]> {
+  const proposed = hunk.lines
+    .filter((l) => !l.startsWith('-') && !l.startsWith('\\'))
+    .map((l) => l.slice(1).replace(/\r$/, ''));
+  const edited = await openInEditor(proposed.join('\n'));
+  const editedLines = edited.replace(/\r?\n$/, '').split(/\r?\n/);
+  return edited === '' ? [] : editedLines;
+}
+
+/**
+ * 以类似 `git add -p` 的方式逐个操作、逐个更改块审查计划。
+ * 结束审查时，当前操作的剩余更改和后续操作都不会应用（与跳过相同，不作为拒绝反馈给 AI）。
+ * 被部分接受的操作会转换为覆写整个文件的替换操作；同一文件的其他内容操作会合并进去，
+ * 以保证 edit 行号和后续替换基于审查后的内容。
+ * @param operations - 要审查的文件操作列表。
+ * @returns 重建后的操作列表和被拒绝的更改。
+ */
+export async function reviewHunks(
+  operations: FileOperation[]
+): Promise<HunkReviewResult> {
+  console.log(CliStyle.process('\n--- 逐块审查 ---'));
+  const workspace = new VirtualWorkspace();
+  const entries: ReviewedEntry[] = [];
+  const rejectedHunks: RejectedHunk[] = [];
+  const modifiedFiles = new Set<string>();
+  let skippedCount = 0;
+  let reviewFinished = false;
+
+  for (let i = 0; i < operations.length; i++) {
+    if (reviewFinished) {
+      skippedCount += operations.length - i;
+      break;
+    }
+    const op = operations[i];
+    const { filePath, oldPath } = getPreviewPaths(op);
+    const isContentOp = op.type !== 'move' && op.type !== 'delete';
+    const target = oldPath
+      ? `${toDisplayPath(oldPath)} -> ${toDisplayPath(filePath)}`
+      : toDisplayPath(filePath);
+
+    let before: string | null;
+    let after: string | null;
+    try {
+      ({ before, after } = await workspace.preview(op));
+    } catch (error) {
+      console.log(
+        CliStyle.warning(
+          `无法预览操作 ${i + 1} (${target}): ${(error as Error).message}，保留原操作。`
+        )
+      );
+      entries.push({
+        op,
+        isContentOp,
+        filePath,
+        createdFile: false,
+        after: null
+      });
+      continue;
+    }
+
+    const entry: ReviewedEntry = {
+      op,
+      isContentOp,
+      filePath,
+      createdFile: before === null,
+      after
+    };
+    entries.push(entry);
+
+    console.log(
+      `\n${CliStyle.operationType(op.type)} ${CliStyle.filePath(target)} ${CliStyle.muted(`(${i + 1}/${operations.length})`)}`
+    );
+    if (op.comment) {
+      console.log(`   ${CliStyle.comment(op.comment)}`);
+    }
+
+    // move、delete 和新建文件作为整体审查
+    if (!isContentOp || before === null) {
+      const formatDiff = (colorize: boolean) =>
+        op.type === 'move'
+          ? `move ${target}`
+          : formatUnifiedDiff(
+              before === null ? '/dev/null' : `a/${toDisplayPath(filePath)}`,
+              after === null ? '/dev/null' : `b/${toDisplayPath(filePath)}`,
+              before ?? '',
+              after ?? '',
+              colorize
+            );
+      if (op.type !== 'move') {
+        console.log(formatDiff(true) || CliStyle.muted('(内容无变化)'));
+      }
+
+      const choice = await promptHunkChoice(
+        '是否接受该操作？',
+        op.type === 'create'
+      );
+      if (choice === 'skip' || choice === 'quit') {
+        entry.op = null;
+        skippedCount++;
+        reviewFinished = choice === 'quit';
+        continue;
+      }
+      if (choice === 'reject') {
+        entry.op = null;
+        rejectedHunks.push({
+          filePath,
+          patch: formatDiff(false),
+          ...(op.comment ? { comment: op.comment } : {})
+        });
+        continue;
+      }
+      if (choice === 'edit' && op.type === 'create') {
+        const content = await openInEditor(op.content);
+        entry.op = { ...op, content };
+        entry.after = content;
+      }
+      workspace.commit(op, entry.after);
+      continue;
+    }
+
+    const { hunks } = structuredPatch('', '', before, after ?? '', '', '');
+    if (hunks.length === 0) {
+      console.log(CliStyle.muted('(内容无变化)'));
+      workspace.commit(op, after);
+      continue;
+    }
+
+    const decisions: HunkDecision[] = [];
+    for (let h = 0; h < hunks.length; h++) {
+      const hunk = hunks[h];
+      console.log(
+        formatHunk(hunk).split('\n').map(colorizeDiffLine).join('\n')
+      );
+
+      const choice = await promptHunkChoice(
+        `是否接受该更改块 (${h + 1}/${hunks.length})？`,
+        true,
+        true
+      );
+      // 跳过和结束审查：剩余更改块不应用，也不作为拒绝反馈给 AI
+      if (choice === 'skip' || choice === 'quit' || choice === 'acceptRest') {
+        const action = choice === 'acceptRest' ? 'accept' : 'skip';
+        if (action === 'skip') skippedCount += hunks.length - h;
+        while (decisions.length < hunks.length) {
+          decisions.push({ action });
+        }
+        reviewFinished = choice === 'quit';
+        break;
+      }
+      if (choice === 'edit') {
+        decisions.push({ action: 'edit', lines: await editHunk(hunk) });
+      } else {
+        decisions.push({ action: choice });
+      }
+      if (choice !== 'accept') {
+        rejectedHunks.push({
+          filePath,
+          patch: formatHunk(hunk),
+          ...(op.comment ? { comment: op.comment } : {})
+        });
+      }
+    }
+
+    if (decisions.every((d) => d.action === 'accept')) {
+      workspace.commit(op, after);
+    } else if (
+      decisions.every((d) => d.action === 'reject' || d.action === 'skip')
+    ) {
+      entry.op = null;
+      entry.after = before;
+    } else {
+      entry.after = applyHunkDecisions(before, hunks, decisions);
+      modifiedFiles.add(filePath);
+      workspace.commit(op, entry.after);
+    }
+  }
+
+  // 部分接受的文件：将该文件的所有内容操作合并为一个覆写整个文件的操作，放在最后一个内容操作的位置
+  for (const filePath of modifiedFiles) {
+    const contentEntries = entries.filter(
+      (e) => e.op && e.isContentOp && e.filePath === filePath
+    );
+    const last = contentEntries[contentEntries.length - 1];
+    const createdFile = contentEntries[0].createdFile;
+    const comments = contentEntries
+      .map((e) => e.op!.comment)
+      .filter((c): c is string => !!c);
+    const comment = comments.length > 0 ? comments.join('; ') : undefined;
+
+    contentEntries.forEach((e) => (e.op = null));
+    last.op = createdFile
+      ? {
+          type: 'create',
+          filePath,
+          content: last.after ?? '',
+          ...(comment ? { comment } : {})
+        }
+      : {
+          type: 'writeWithReplace',
+          filePath,
+          content: last.after ?? '',
+          ...(comment ? { comment } : {})
+        };
+  }
+
+  const reviewedOperations = entries
+    .map((e) => e.op)
+    .filter((op): op is FileOperation => op !== null);
+  console.log(
+    CliStyle.info(
+      `逐块审查完成: 保留 ${reviewedOperations.length} 个操作，拒绝 ${rejectedHunks.length} 处更改${skippedCount > 0 ? `，跳过 ${skippedCount} 处更改` : ''}。`
+    )
+  );
+  return { operations: reviewedOperations, rejectedHunks };
+}
+
+/**
+ * 将被拒绝的更改格式化为可发送给 AI 的文本。
+ * @param rejectedHunks - 被拒绝的更改。
+ * @returns 格式化后的文本。
+ */
+export function formatRejectedHunks(rejectedHunks: RejectedHunk[]): string {
+  return rejectedHunks
+    .map(
+      (hunk) =>
+        `${hunk.filePath}${hunk.comment ? ` (${hunk.comment})` : ''}:\n\`\`\`diff\n${hunk.patch}\n\`\`\``
+    )
+    .join('\n\n');
+}
@@ -0,0 +1,385 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** 按顺序回答交互式提示的答案，测试中逐个填入；函数会在提示时调用，用于模拟审查期间的操作。 */
+const promptAnswers: unknown[] = [];
+
+vi.mock('inquirer', () => ({
+  default: {
+    prompt: vi.fn(async (questions: Array<{ name: string }>) => {
+      if (promptAnswers.length === 0) {
+        throw new Error(`没有为提示 ${questions[0].name} 准备答案`);
+      }
+      const answer = promptAnswers.shift();
+      return {
+        [questions[0].name]:
+          typeof answer === 'function' ? await answer() : answer
+      };
+    })
+  }
+}));
+
+/** 端到端测试使用的 mock 样例目录。 */
+const FIXTURES_DIR = path.resolve(__dirname, '../../scripts/mock-fixtures');
+
+const ORIGINAL_GREET = `function greet(name) {
+  return 'Helo, ' + name;
+}
+
+module.exports = { greet };
+`;
+
+const EXPECTED_GREET = `function greet(name = 'world') {
+  return 'Hello, ' + name;
+}
+
+module.exports = { greet };
+`;
+
+const ORIGINAL_SETTINGS = `module.exports = {
+  port: 3000,
+  host: 'localhost',
+  retries: 3,
+  timeout: 1000,
+  cache: true,
+  compress: true,
+  secure: false,
+  maxBodySize: 1024,
+  maxHeaderSize: 8192,
+  keepAlive: true,
+  keepAliveTimeout: 5000,
+  cors: false,
+  etag: true,
+  gzipLevel: 6,
+  logLevel: 'info',
+  verbose: false
+};
+`;
+
+/**
+ * 每个测试使用独立的 HOME、临时目录和项目目录，避免读取或修改真实的配置和历史记录。
+ */
+interface Sandbox {
+  root: string;
+  project: string;
+  logs: string[];
+}
+
+/** 测试中会修改的环境变量。 */
+const SANDBOX_ENV_KEYS = [
+  'HOME',
+  'USERPROFILE',
+  'TMPDIR',
+  'MAI_MOCK_DIR',
+  'MAI_MOCK_RECORD',
+  'MAI_MOCK_RECORD_SEQUENCE'
+];
+
+let sandbox: Sandbox;
+const originalCwd = process.cwd();
+const originalEnv = Object.fromEntries(
+  SANDBOX_ENV_KEYS.map((key) => [key, process.env[key]])
+);
+const baseTmpDir = os.tmpdir();
+
+beforeEach(async () => {
+  const root = await fs.mkdtemp(path.join(baseTmpDir, 'mai-test-'));
+  for (const dir of ['home', 'tmp', 'project']) {
+    await fs.mkdir(path.join(root, dir));
+  }
+  process.env.HOME = path.join(root, 'home');
+  process.env.USERPROFILE = process.env.HOME;
+  process.env.TMPDIR = path.join(root, 'tmp');
+  process.env.MAI_MOCK_DIR = FIXTURES_DIR;
+  delete process.env.MAI_MOCK_RECORD;
+  delete process.env.MAI_MOCK_RECORD_SEQUENCE;
+  process.chdir(path.join(root, 'project'));
+  promptAnswers.length = 0;
+
+  const logs: string[] = [];
+  const capture = (...args: unknown[]) => {
+    logs.push(args.map(String).join(' '));
+  };
+  vi.spyOn(console, 'log').mockImplementation(capture);
+  vi.spyOn(console, 'error').mockImplementation(capture);
+  vi.spyOn(console, 'warn').mockImplementation(capture);
+  vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  // 配置缓存和 mock 的请求顺序都保存在模块中，每个测试重新加载
+  vi.resetModules();
+  sandbox = { root, project: path.join(root, 'project'), logs };
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  process.chdir(originalCwd);
+  for (const [key, value] of Object.entries(originalEnv)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  await fs.rm(sandbox.root, { recursive: true, force: true });
+});
+
+async function writeProjectFile(name: string, content: string) {
+  const filePath = path.join(sandbox.project, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+/**
+ * 以 mock 模型发送一次请求，不加载历史上下文。
+ */
+async function runRequest(
+  mockName: string,
+  prompt: string,
+  files: string[],
+  autoApply: boolean
+) {
+  const { processRequest } = await import('./main-processor');
+  await processRequest(
+    prompt,
+    files,
+    undefined,
+    0,
+    undefined,
+    false,
+    autoApply,
+    `mock/${mockName}`
+  );
+}
+
+describe('processRequest with mock provider', () => {
+  it('replays the plan, applies it and records history', async () => {
+    const greetFile = await writeProjectFile('greet.js', ORIGINAL_GREET);
+    const { readProjectHistory } = await import('./history-store');
+
+    await runRequest('demo', '修正 greet 函数', ['greet.js'], true);
+
+    expect(await fs.readFile(greetFile, 'utf-8')).toBe(EXPECTED_GREET);
+    const [entry] = await readProjectHistory(sandbox.project);
+    expect(entry.prompt).toBe('修正 greet 函数');
+    expect(entry.applied).toBe(true);
+  });
+
+  it('rolls back every change when an operation fails during execution', async () => {
+    const greetFile = await writeProjectFile('greet.js', ORIGINAL_GREET);
+    const notesFile = await writeProjectFile('notes.md', 'notes\n');
+    const { readProjectHistory } = await import('./history-store');
+
+    await expect(
+      runRequest('rollback', '整理文件', ['greet.js'], true)
+    ).rejects.toThrow(/已回滚所有更改/);
+
+    expect(await fs.readFile(greetFile, 'utf-8')).toBe(ORIGINAL_GREET);
+    expect(await fs.readFile(notesFile, 'utf-8')).toBe('notes\n');
+    await expect(
+      fs.access(path.join(sandbox.project, 'greet.md'))
+    ).rejects.toThrow();
+    const entry = (await readProjectHistory(sandbox.project)).find(
+      (e) => e.operations.length > 0
+    );
+    expect(entry?.applied).toBeFalsy();
+    expect(entry?.description).toMatch(/^执行失败/);
+  });
+
+  it('applies only accepted hunks and records rejected ones', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    const { readProjectHistory } = await import('./history-store');
+    promptAnswers.push('hunks', 'accept', 'reject', 'apply');
+
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(
+      ORIGINAL_SETTINGS.replace('port: 3000', 'port: 8080')
+    );
+    const [entry] = await readProjectHistory(sandbox.project);
+    expect(entry.applied).toBe(true);
+    expect(entry.rejectedHunks).toHaveLength(1);
+    expect(entry.rejectedHunks![0].patch).toContain('+  verbose: true');
+  });
+
+  it('leaves skipped hunks unapplied without recording them as rejected', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    const { readProjectHistory } = await import('./history-store');
+    promptAnswers.push('hunks', 'accept', 'skip', 'apply');
+
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(
+      ORIGINAL_SETTINGS.replace('port: 3000', 'port: 8080')
+    );
+    const [entry] = await readProjectHistory(sandbox.project);
+    expect(entry.rejectedHunks ?? []).toHaveLength(0);
+  });
+
+  it('cancels the plan when every hunk is skipped', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    promptAnswers.push('hunks', 'skip');
+
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(ORIGINAL_SETTINGS);
+  });
+
+  it('accepts the remaining hunks of an operation when asked explicitly', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    promptAnswers.push('hunks', 'acceptRest', 'apply');
+
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(
+      ORIGINAL_SETTINGS.replace('port: 3000', 'port: 8080').replace(
+        'verbose: false',
+        'verbose: true'
+      )
+    );
+  });
+
+  it('leaves the current and later operations unapplied when review is quit', async () => {
+    const greetFile = await writeProjectFile('greet.js', ORIGINAL_GREET);
+    const notesFile = await writeProjectFile('notes.md', 'notes\n');
+    promptAnswers.push('hunks', 'accept', 'quit', 'apply');
+
+    await runRequest('rollback', '整理文件', ['greet.js'], false);
+
+    expect(await fs.readFile(greetFile, 'utf-8')).toBe(
+      ORIGINAL_GREET.replace('Helo', 'Hello')
+    );
+    expect(await fs.readFile(notesFile, 'utf-8')).toBe('notes\n');
+    await expect(
+      fs.access(path.join(sandbox.project, 'greet.md'))
+    ).rejects.toThrow();
+  });
+
+  it('redoes the reviewed changes and merges later edits after undo', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    const { undoHistory, redoHistory } = await import('../commands/history');
+    promptAnswers.push('hunks', 'accept', 'reject', 'apply');
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    promptAnswers.push('apply');
+    await undoHistory('~1');
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(ORIGINAL_SETTINGS);
+
+    await fs.writeFile(
+      settingsFile,
+      ORIGINAL_SETTINGS.replace('etag: true', 'etag: false')
+    );
+    promptAnswers.push('merge', 'apply');
+    await redoHistory('~1');
+
+    // 重做的是审查后实际应用的更改（被拒绝的 verbose 不应出现），并保留之后的修改
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(
+      ORIGINAL_SETTINGS.replace('port: 3000', 'port: 8080').replace(
+        'etag: true',
+        'etag: false'
+      )
+    );
+  });
+
+  it('undoes to the state at execution time when files change during review', async () => {
+    const settingsFile = await writeProjectFile(
+      'settings.js',
+      ORIGINAL_SETTINGS
+    );
+    const editedSettings = ORIGINAL_SETTINGS.replace(
+      'etag: true',
+      'etag: false'
+    );
+    const { undoHistory } = await import('../commands/history');
+    promptAnswers.push(async () => {
+      await fs.writeFile(settingsFile, editedSettings);
+      return 'apply';
+    });
+    await runRequest('hunks', '调整设置', ['settings.js'], false);
+
+    promptAnswers.push('apply');
+    await undoHistory('~1');
+
+    expect(await fs.readFile(settingsFile, 'utf-8')).toBe(editedSettings);
+  });
+
+  it('reports the repaired response when the AI fixes an unreachable plan', async () => {
+    const greetFile = await writeProjectFile('greet.js', ORIGINAL_GREET);
+    const { processAiResponse } = await import('./main-processor');
+    const repairedResponses: string[] = [];
+
+    await processAiResponse(
+      [
+        '--- OPERATION start ---',
+        'type: writeWithReplace',
+        'filePath: greet.js',
+        '--- find start ---',
+        "  throw new Error('not implemented');",
+        '--- find end ---',
+        '--- content start ---',
+        "  return 'Hello, ' + name;",
+        '--- content end ---',
+        '--- OPERATION end ---'
+      ].join('\n'),
+      '修正 greet 函数',
+      true,
+      ['greet.js'],
+      {
+        messages: [{ role: 'user', content: '修正 greet 函数' }],
+        model: 'mock/repair',
+        temperature: 0,
+        onRepaired: (response) => repairedResponses.push(response)
+      }
+    );
+
+    expect(await fs.readFile(greetFile, 'utf-8')).toBe(
+      ORIGINAL_GREET.replace('Helo', 'Hello')
+    );
+    expect(repairedResponses).toHaveLength(1);
+    expect(repairedResponses[0]).toContain('已按当前内容修正');
+  });
+
+  it('refuses fuzzy matches in auto-apply mode even when fuzzy matching is enabled', async () => {
+    const drifted = ORIGINAL_GREET.replace('+ name', '+ names');
+    const greetFile = await writeProjectFile('greet.js', drifted);
+    await fs.mkdir(path.join(process.env.HOME!, '.mai'));
+    await fs.writeFile(
+      path.join(process.env.HOME!, '.mai', 'config.json5'),
+      JSON.stringify({ match: { fuzzy: true }, autoRepair: { maxRounds: 0 } })
+    );
+
+    await expect(
+      runRequest('demo', '修正 greet 函数', ['greet.js'], true)
+    ).rejects.toThrow(/不可达操作/);
+    expect(await fs.readFile(greetFile, 'utf-8')).toBe(drifted);
+    expect(sandbox.logs.join('\n')).toContain('自动应用模式下不使用模糊匹配');
+  });
+
+  it('fails without falling back to a live model when no fixture matches', async () => {
+    await writeProjectFile('greet.js', ORIGINAL_GREET);
+    await fs.mkdir(path.join(process.env.HOME!, '.mai'));
+    await fs.writeFile(
+      path.join(process.env.HOME!, '.mai', 'config.json5'),
+      JSON.stringify({ fallbackModels: ['openai/gpt-4o'] })
+    );
+
+    await expect(
+      runRequest('missing', '修正 greet 函数', ['greet.js'], true)
+    ).rejects.toThrow(/mock\/missing 没有与请求匹配的样例/);
+    expect(sandbox.logs.join('\n')).not.toContain('改用备用模型');
+  });
+});
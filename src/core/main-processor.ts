@@ -9,26 +9,72 @@ import {
   ResponseOperation
 } from './operation-schema';
 import { CliStyle } from '../utils/cli-style';
-import { getSystemPrompt } from '../utils/config-manager';
-import { constructSystemPrompt, createUserPrompt } from '../constants/prompts';
+import {
+  getAutoRepairMaxRounds,
+  getContextStrategy,
+  getCurrentModel,
+  getHistoryDepth,
+  getSystemPrompt,
+  getTemperature
+} from '../utils/config-manager';
+import {
+  constructSystemPrompt,
+  createRepairPrompt,
+  createUserPrompt
+} from '../constants/prompts';
 import { parseAiResponse } from './ai-response-parser';
-import { reviewAndExecutePlan } from './plan-reviewer';
-import { FileContextItem, getFileContext } from './file-context';
-import { getAiResponse, streamAiResponse } from '../utils/network';
+import {
+  formatOperationLine,
+  PlanRepairHandler,
+  reviewAndExecutePlan
+} from './plan-reviewer';
+import {
+  captureSnapshot,
+  getTouchedPaths,
+  PlanSnapshot
+} from './plan-executor';
+import {
+  FileContextBlock,
+  FileContextItem,
+  getFileContext,
+  getFileContextBlocks
+} from './file-context';
+import {
+  applyContextBudget,
+  buildRequestMessages,
+  RequestContext
+} from './context-budget';
+import {
+  getRequestContextLimit,
+  streamAiResponse,
+  TokenUsage
+} from '../utils/network';
 import {
   formatHistoryContext,
   formatMultipleHistoryContexts,
   getRecentHistory,
   getHistoryById,
   loadHistory,
-  saveHistory,
   saveAiHistory,
   parseIdOrName,
   HistoryEntry,
-  updateHistoryApplied
+  HistoryEntryDetails,
+  recordResultHashes,
+  recordSnapshot,
+  updateHistoryApplied,
+  updateHistoryAppliedOperations,
+  updateHistoryEntry,
+  updateHistoryGitCommit,
+  updateHistoryRejectedHunks,
+  updateHistorySnapshot
 } from '../commands/history';
-import { getHistoryDepth } from '../utils/config-manager';
+import { loadEntryContents } from './history-store';
+import { formatRejectedHunks, RejectedHunk } from './hunk-reviewer';
 import { prepareAutoContext } from './context-agent';
+import {
+  createOperationStream,
+  StreamedOperationBlock
+} from './operation-stream';
 import { ModelMessage } from 'ai';
 
 /**
@@ -38,7 +84,8 @@ import { ModelMessage } from 'ai';
  * @param historyIds - 可选的历史 ID 列表（逗号分隔解析）。
  * @param historyDepth - 可选的历史深度，用于自动加载最近 N 条。
  * @param systemPrompt - 可选的系统提示，传入空字符串时将使用默认系统提示。
- * @throws {Error} 如果文件处理失败或AI请求失败。
+ * @param maxContext - 可选的上下文 token 上限，覆盖配置中模型的上限。
+ * @throws {Error} 如果文件处理失败、上下文超出上限或AI请求失败。
  */
 export async function processRequest(
   userPrompt: string,
@@ -49,44 +96,20 @@ export async function processRequest(
   autoContext?: boolean,
   autoApply?: boolean,
   model?: string,
-  temperature?: number
+  temperature?: number,
+  maxContext?: number
 ): Promise<void> {
   if (!userPrompt?.trim()) {
     console.log(CliStyle.warning('用户请求为空，退出。'));
     return;
   }
 
-  let historyMessages: ModelMessage[] = [];
-
-  let fileContext = '';
+  const historyTurns: RequestContext['historyTurns'] = [];
+  let fileBlocks: FileContextBlock[] = [];
   let actualUserPromptContent = '';
 
   // 构造系统提示
-  let actualSystemPrompt: string;
-
-  if (systemPrompt !== undefined) {
-    // 明确指定（空或自定义）
-    actualSystemPrompt = systemPrompt;
-    if (systemPrompt) {
-      console.log(
-        CliStyle.info(
-          `使用指定的系统提示词（长度: ${systemPrompt.length} 字符）。`
-        )
-      );
-    } else {
-      console.log(CliStyle.info('使用空系统提示词。'));
-    }
-  } else {
-    // 检查配置文件中的系统提示
-    const configSystemPrompt = await getSystemPrompt();
-    if (configSystemPrompt) {
-      console.log(CliStyle.info('使用配置文件中的自定义系统提示词。'));
-      actualSystemPrompt = configSystemPrompt;
-    } else {
-      // 使用默认系统提示
-      actualSystemPrompt = constructSystemPrompt();
-    }
-  }
+  const actualSystemPrompt = await resolveSystemPrompt(systemPrompt);
   if (autoApply) {
     console.log(CliStyle.info('启用自动应用模式，无需用户确认。'));
   }
@@ -110,7 +133,7 @@ export async function processRequest(
       const history = await loadHistory();
       for (const idOrName of historyIds) {
         const result = parseIdOrName(idOrName, history);
-        entries.push(result.entry!);
+        entries.push(await loadEntryContents(result.entry!));
         // 添加历史请求中的文件到 files
         if (result.entry!.files && result.entry!.files.length > 0) {
           files.push(...result.entry!.files);
@@ -142,7 +165,7 @@ export async function processRequest(
 
     if (files.length > 0) {
       console.log(CliStyle.info('正在读取文件并为AI准备上下文...'));
-      fileContext = await getFileContext(files);
+      fileBlocks = await getFileContextBlocks(files);
     }
 
     actualUserPromptContent = createUserPrompt(userPrompt);
@@ -151,18 +174,15 @@ export async function processRequest(
     if (entries.length > 0) {
       const reversedEntries = entries.slice().reverse(); // 从旧到新
       for (const entry of reversedEntries) {
-        historyMessages.push({ role: 'user', content: entry.prompt });
-        historyMessages.push({
-          role: 'assistant',
-          content: entry.aiResponse || ''
+        historyTurns.push({
+          id: entry.id,
+          messages: createTurnMessages(
+            entry.prompt,
+            entry.aiResponse || '',
+            entry.applied,
+            entry.rejectedHunks
+          )
         });
-        if (entry.applied !== undefined) {
-          const choice = entry.applied ? '应用' : '放弃';
-          historyMessages.push({
-            role: 'user',
-            content: `用户选择了${choice}该计划。`
-          });
-        }
       }
       console.log(
         CliStyle.info(`已将 ${entries.length} 条历史添加到对话历史中`)
@@ -172,15 +192,175 @@ export async function processRequest(
     throw new Error(`上下文准备失败: ${(error as Error).message}`);
   }
 
-  // 获取temperature参数
-  let actualTemperature: number;
+  const actualTemperature = await resolveTemperature(temperature);
+
+  // 步骤2：估算上下文大小，超出上限时按策略裁剪或拒绝发送
+  const context = applyContextBudget(
+    {
+      systemPrompt: actualSystemPrompt,
+      historyTurns,
+      userPrompt: actualUserPromptContent,
+      fileBlocks
+    },
+    maxContext ?? (await getRequestContextLimit(model)),
+    await getContextStrategy()
+  );
+  const messages = buildRequestMessages(context);
+  const parentIds = context.historyTurns.map((turn) => turn.id);
+
+  const {
+    response,
+    model: actualModel,
+    usage,
+    latencyMs
+  } = await requestAiResponse(messages, model, actualTemperature);
+
+  await processAiResponse(response, userPrompt, autoApply, files, {
+    messages,
+    model: actualModel,
+    temperature: actualTemperature,
+    parentIds,
+    usage,
+    latencyMs,
+    streamed: true
+  });
+}
+
+/**
+ * 将一轮对话（用户请求、AI响应及用户对计划的选择）转换为消息列表。
+ * @param prompt - 用户请求。
+ * @param aiResponse - AI 的原始响应。
+ * @param applied - 用户是否应用了该计划；undefined 表示没有文件计划。
+ * @param rejectedHunks - 逐块审查中被用户拒绝的更改。
+ * @returns 该轮对话对应的消息数组。
+ */
+export function createTurnMessages(
+  prompt: string,
+  aiResponse: string,
+  applied?: boolean,
+  rejectedHunks?: RejectedHunk[]
+): ModelMessage[] {
+  const messages: ModelMessage[] = [
+    { role: 'user', content: prompt },
+    { role: 'assistant', content: aiResponse }
+  ];
+  if (applied !== undefined) {
+    const choice = applied ? '应用' : '放弃';
+    let feedback = `用户选择了${choice}该计划。`;
+    if (rejectedHunks && rejectedHunks.length > 0) {
+      feedback += `\n其中以下更改被用户拒绝:\n\n${formatRejectedHunks(rejectedHunks)}`;
+    }
+    messages.push({ role: 'user', content: feedback });
+  }
+  return messages;
+}
+
+/**
+ * 解析实际使用的系统提示词。
+ * @param systemPrompt - 明确指定的系统提示词（空字符串表示不使用系统提示词）。
+ * @returns 实际使用的系统提示词。
+ */
+export async function resolveSystemPrompt(
+  systemPrompt?: string
+): Promise<string> {
+  if (systemPrompt !== undefined) {
+    // 明确指定（空或自定义）
+    if (systemPrompt) {
+      console.log(
+        CliStyle.info(
+          `使用指定的系统提示词（长度: ${systemPrompt.length} 字符）。`
+        )
+      );
+    } else {
+      console.log(CliStyle.info('使用空系统提示词。'));
+    }
+    return systemPrompt;
+  }
+
+  // 检查配置文件中的系统提示
+  const configSystemPrompt = await getSystemPrompt();
+  if (configSystemPrompt) {
+    console.log(CliStyle.info('使用配置文件中的自定义系统提示词。'));
+    return configSystemPrompt;
+  }
+  // 使用默认系统提示
+  return constructSystemPrompt();
+}
+
+/**
+ * 解析实际使用的 temperature 参数。
+ * @param temperature - 命令行指定的 temperature（可选）。
+ * @returns temperature 数值。
+ */
+export async function resolveTemperature(
+  temperature?: number
+): Promise<number> {
   if (temperature !== undefined) {
-    actualTemperature = temperature;
-  } else {
-    const { getTemperature } = await import('../utils/config-manager');
-    actualTemperature = await getTemperature();
+    return temperature;
   }
+  return await getTemperature();
+}
 
+/**
+ * 一次 AI 请求的响应及用量。
+ */
+export interface AiRequestResult {
+  response: string;
+  /** 实际生成响应的模型；主模型失败时可能是备用模型。 */
+  model: string;
+  /** token 用量；提供商未返回时为 undefined。 */
+  usage?: TokenUsage;
+  /** 请求耗时（毫秒）。 */
+  latencyMs: number;
+}
+
+/**
+ * 显示流式响应中结束的操作块：说明直接显示内容，文件操作显示摘要行，无效的操作块显示原因。
+ * @param block - 结束的操作块。
+ * @param print - 输出函数。
+ */
+function showStreamedBlock(
+  block: StreamedOperationBlock,
+  print: (text: string) => void
+): void {
+  const { operation } = block;
+  if (!operation) {
+    print(
+      CliStyle.warning(
+        `操作 ${block.index}（第 ${block.startLine}-${block.endLine} 行）无效: ${block.error}`
+      )
+    );
+    return;
+  }
+  if (operation.type === 'response') {
+    if (operation.comment) {
+      print(CliStyle.comment(`说明: ${operation.comment}`));
+    }
+    print(CliStyle.markdown(operation.content));
+    return;
+  }
+  print(
+    `${formatOperationLine(operation)}${
+      operation.comment ? `\n   ${CliStyle.comment(operation.comment)}` : ''
+    }`
+  );
+}
+
+/**
+ * 发送消息并以流式方式获取AI响应，期间显示进度指示。
+ * 响应文本实时输出，每个操作块结束时即显示该操作，无需等待完整响应。
+ * 请求期间按 Ctrl+C 会取消请求并抛出错误，此时尚未写入历史记录；再次按下则退出进程。
+ * @param messages - 完整的消息列表。
+ * @param model - 可选的模型名称。
+ * @param temperature - temperature 参数。
+ * @returns AI 的完整响应、实际使用的模型、token 用量和耗时。
+ * @throws {Error} 如果AI请求失败或被取消。
+ */
+export async function requestAiResponse(
+  messages: ModelMessage[],
+  model: string | undefined,
+  temperature: number
+): Promise<AiRequestResult> {
   const aiSpinner = ora({
     text: 'AI思考中...',
     spinner: {
@@ -189,14 +369,17 @@ export async function processRequest(
     }
   }).start();
 
-  let aiResponse: string;
   const startTime = Date.now();
   let receivedChars = 0;
+  let receivingBlock: number | undefined;
+  let actualModel = model || (await getCurrentModel());
+  let usage: TokenUsage | undefined;
 
   const updateSpinner = () => {
     const elapsed = Math.floor((Date.now() - startTime) / 1000);
     if (receivedChars > 0) {
-      aiSpinner.text = `AI流式响应中... (${elapsed}s, ${receivedChars} Received)`;
+      const block = receivingBlock ? `, 正在接收操作 ${receivingBlock}` : '';
+      aiSpinner.text = `AI流式响应中... (${elapsed}s, ${receivedChars} Received${block})`;
     } else {
       aiSpinner.text = `AI思考中... (${elapsed}s)`;
     }
@@ -205,43 +388,116 @@ export async function processRequest(
   // 更新计时
   const timer = setInterval(updateSpinner, 1000);
 
+  // 在进度指示上方输出内容
+  const print = (text: string) => {
+    aiSpinner.clear();
+    console.log(text);
+    if (aiSpinner.isSpinning) aiSpinner.render();
+  };
+  const createStream = () => {
+    let printedText = false;
+    return createOperationStream({
+      onText: (line) => {
+        // 跳过响应开头的空行
+        if (!printedText && !line.trim()) return;
+        printedText = true;
+        print(line);
+      },
+      onBlockStart: (index) => {
+        receivingBlock = index;
+        updateSpinner();
+      },
+      onBlock: (block) => {
+        if (receivingBlock === block.index) receivingBlock = undefined;
+        showStreamedBlock(block, print);
+        updateSpinner();
+      }
+    });
+  };
+  let stream = createStream();
+
+  // 第一次 Ctrl+C 取消请求，之后恢复默认行为
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+
   try {
-    const messages: ModelMessage[] = [
-      ...(actualSystemPrompt
-        ? [{ role: 'system', content: actualSystemPrompt }]
-        : []),
-      ...historyMessages,
-      { role: 'user', content: actualUserPromptContent },
-      ...(fileContext ? [{ role: 'user', content: fileContext }] : [])
-    ] as ModelMessage[];
-
-    aiResponse = await streamAiResponse(messages, {
-      model,
-      temperature: actualTemperature,
+    const aiResponse = await streamAiResponse(messages, {
+      model: actualModel,
+      temperature,
+      abortSignal: controller.signal,
       onChunk: (chunk: string, response: string) => {
         // 更新接收到的字符数
         receivedChars = response.length;
+        stream.push(chunk);
+        updateSpinner();
+      },
+      onRetry: (message: string) => {
+        // 重试时响应从头开始
+        receivedChars = 0;
+        receivingBlock = undefined;
+        stream = createStream();
+        print(CliStyle.warning(message));
         updateSpinner();
+      },
+      onFinish: (result) => {
+        actualModel = result.model;
+        usage = result.usage;
       }
     });
+    const latencyMs = Date.now() - startTime;
+    const incomplete = await stream.end();
+    if (incomplete) {
+      print(CliStyle.warning(incomplete));
+    }
 
     const messagesJson = JSON.stringify(messages, null, 2);
     await saveAiResponseToTempFile(aiResponse, messagesJson);
 
     clearInterval(timer);
-    const totalElapsed = Math.floor((Date.now() - startTime) / 1000);
-    aiSpinner.succeed(`AI响应成功 (${totalElapsed}s, ${receivedChars} Total)`);
+    const totalElapsed = Math.floor(latencyMs / 1000);
+    const tokens = usage
+      ? `, ${usage.inputTokens} 输入 / ${usage.outputTokens} 输出 tokens`
+      : '';
+    aiSpinner.succeed(
+      `AI响应成功 (${totalElapsed}s, ${receivedChars} Total${tokens})`
+    );
+    return { response: aiResponse, model: actualModel, usage, latencyMs };
   } catch (error) {
     clearInterval(timer);
-    aiSpinner.fail('AI响应获取失败');
     const elapsed = Math.floor((Date.now() - startTime) / 1000);
-    console.error(
-      CliStyle.error(`AI请求失败: ${(error as Error).message} (${elapsed}s)`)
-    );
+    if (controller.signal.aborted) {
+      aiSpinner.warn(`AI请求已取消 (${elapsed}s)`);
+    } else {
+      aiSpinner.fail('AI响应获取失败');
+      console.error(
+        CliStyle.error(`AI请求失败: ${(error as Error).message} (${elapsed}s)`)
+      );
+    }
     throw error;
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
   }
+}
 
-  await processAiResponse(aiResponse, userPrompt, autoApply, files);
+/**
+ * 计划修复所需的对话上下文。
+ */
+export interface RepairContext {
+  /** 产生该响应的完整消息列表。 */
+  messages: ModelMessage[];
+  model?: string;
+  temperature: number;
+  /** 作为对话上下文的历史记录 ID（按对话顺序）。 */
+  parentIds?: string[];
+  /** 产生该响应的请求的 token 用量。 */
+  usage?: TokenUsage;
+  /** 产生该响应的请求耗时（毫秒）。 */
+  latencyMs?: number;
+  /** 响应是否已在接收时实时显示（此时不再重复显示说明和原始响应）。 */
+  streamed?: boolean;
+  /** AI 修复计划后调用，参数为取代原响应的修复后响应。 */
+  onRepaired?: (aiResponse: string) => void;
 }
 
 /**
@@ -250,28 +506,49 @@ export async function processRequest(
  * @param userPrompt - 原始用户请求，用于历史记录。
  * @param autoApply - 是否自动应用。
  * @param files - 用户传递的文件列表，用于历史记录。
+ * @param repairContext - 可选的对话上下文，提供时计划不可达可请求AI修复。
+ * @returns 文件计划是否被应用、被拒绝的更改及保存的历史记录 ID；没有文件操作时 applied 为 undefined。
  * @throws {Error} 如果处理AI响应失败。
  */
 export async function processAiResponse(
   aiResponse: string,
   userPrompt?: string,
   autoApply?: boolean,
-  files?: string[]
-): Promise<void> {
+  files?: string[],
+  repairContext?: RepairContext
+): Promise<{
+  applied?: boolean;
+  rejectedHunks?: RejectedHunk[];
+  historyId?: string;
+}> {
+  // 手动执行的计划没有对话上下文，不记录模型
+  const details: HistoryEntryDetails = {
+    files,
+    model: repairContext
+      ? repairContext.model || (await getCurrentModel())
+      : undefined,
+    temperature: repairContext?.temperature,
+    usage: repairContext?.usage,
+    latencyMs: repairContext?.latencyMs,
+    parentIds: repairContext?.parentIds
+  };
+  let historyId: string | undefined;
   if (!aiResponse?.trim()) {
     // 即使响应为空，也保存历史
     if (userPrompt) {
-      await saveAiHistory(
-        userPrompt,
-        aiResponse,
-        [],
-        new Map(),
-        '空AI响应',
-        files
-      );
+      historyId = (
+        await saveAiHistory(
+          userPrompt,
+          aiResponse,
+          [],
+          undefined,
+          '空AI响应',
+          details
+        )
+      ).id;
     }
     console.log(CliStyle.warning('AI响应为空，无操作可执行。'));
-    return;
+    return { historyId };
   }
 
   try {
@@ -281,19 +558,23 @@ export async function processAiResponse(
     if (operations.length === 0) {
       // 保存仅响应历史
       if (userPrompt) {
-        await saveAiHistory(
-          userPrompt,
-          aiResponse,
-          [],
-          new Map(),
-          '仅包含AI响应',
-          files
-        );
+        historyId = (
+          await saveAiHistory(
+            userPrompt,
+            aiResponse,
+            [],
+            undefined,
+            '仅包含AI响应',
+            details
+          )
+        ).id;
       }
       console.log(CliStyle.warning('AI未提出任何结构化操作。'));
-      console.log(CliStyle.info('\n--- 原始AI响应 ---'));
-      console.log(CliStyle.markdown(aiResponse.trim()));
-      return;
+      if (!repairContext?.streamed) {
+        console.log(CliStyle.info('\n--- 原始AI响应 ---'));
+        console.log(CliStyle.markdown(aiResponse.trim()));
+      }
+      return { historyId };
     }
 
     console.log(CliStyle.success(`成功解析 ${operations.length} 个操作。`));
@@ -306,35 +587,21 @@ export async function processAiResponse(
       (op): op is FileOperation => op.type !== 'response'
     );
 
-    // 预加载需要备份的文件初始内容（仅文件操作）
-    const filesToBackup: Set<string> = new Set();
-    for (const op of fileOps) {
-      if (op.type === 'writeWithReplace' || op.type === 'delete') {
-        filesToBackup.add(op.filePath);
-      }
-    }
-    const fileOriginalContents = new Map<string, string>();
-    for (const filePath of filesToBackup) {
-      try {
-        const content = await fs.readFile(filePath, 'utf-8');
-        fileOriginalContents.set(filePath, content);
-      } catch (err) {
-        // 文件不存在，跳过
-      }
-    }
+    // 记录文件操作涉及的所有路径当前的状态；应用后替换为执行时的快照，用于撤销
+    const snapshot = await captureSnapshot(fileOps);
 
     // 保存完整历史（包括response和file ops）
     const historyEntry = await saveAiHistory(
       userPrompt || '未知提示',
       aiResponse,
       operations,
-      fileOriginalContents,
+      snapshot,
       undefined, // description 将在执行后更新
-      files
+      details
     );
 
     // 步骤1：显示AI的文本响应
-    if (responseOps.length > 0) {
+    if (responseOps.length > 0 && !repairContext?.streamed) {
       console.log(CliStyle.success('\n--- AI说明 ---'));
       responseOps.forEach((op) => {
         if (op.comment) {
@@ -349,11 +616,30 @@ export async function processAiResponse(
     // 步骤2：处理文件操作
     if (fileOps.length > 0) {
       try {
-        const { applied } = await reviewAndExecutePlan(
+        const maxRepairRounds = repairContext
+          ? await getAutoRepairMaxRounds()
+          : 0;
+        const {
+          applied,
+          operations: appliedOperations,
+          rejectedHunks,
+          snapshot: executionSnapshot,
+          gitCommit
+        } = await reviewAndExecutePlan(
           fileOps,
           '',
           userPrompt,
-          autoApply
+          autoApply,
+          maxRepairRounds > 0
+            ? {
+                repair: createRepairHandler(
+                  repairContext!,
+                  aiResponse,
+                  historyEntry.id,
+                  maxRepairRounds
+                )
+              }
+            : {}
         );
         if (applied) {
           // 执行成功，更新历史描述和 applied
@@ -362,10 +648,25 @@ export async function processAiResponse(
             `执行成功: ${fileOps.length} 个文件操作`
           );
           await updateHistoryApplied(historyEntry.id, true);
+          if (executionSnapshot) {
+            await updateHistorySnapshot(historyEntry.id, executionSnapshot);
+          }
+          await updateHistoryAppliedOperations(
+            historyEntry.id,
+            appliedOperations
+          );
+          await recordResultHashes(historyEntry.id);
+          if (gitCommit) {
+            await updateHistoryGitCommit(historyEntry.id, gitCommit);
+          }
         } else {
           // 用户取消，更新描述
           await updateHistoryDescription(historyEntry.id, `未应用: 用户取消`);
         }
+        if (rejectedHunks.length > 0) {
+          await updateHistoryRejectedHunks(historyEntry.id, rejectedHunks);
+        }
+        return { applied, rejectedHunks, historyId: historyEntry.id };
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : String(error);
@@ -383,6 +684,7 @@ export async function processAiResponse(
         '仅包含AI响应，无文件操作'
       );
       console.log(CliStyle.success('AI操作完成（仅包含说明文本）。'));
+      return { historyId: historyEntry.id };
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -395,9 +697,9 @@ export async function processAiResponse(
           userPrompt,
           aiResponse,
           [],
-          new Map(),
+          undefined,
           `处理失败: ${errorMessage}`,
-          files
+          details
         );
       } catch {}
     }
@@ -419,6 +721,134 @@ export async function processAiResponse(
   }
 }
 
+/**
+ * 创建计划修复回调：将验证错误和相关文件的当前内容作为新一轮对话发给AI，并解析修正后的计划。
+ * AI 能在对话中看到自己之前的输出；每轮修复后更新历史记录中的响应和操作。
+ * @param context - 产生原始响应的对话上下文。
+ * @param aiResponse - AI 的原始响应。
+ * @param historyId - 对应的历史记录 ID。
+ * @param maxRounds - 最大修复轮次。
+ * @returns 计划修复回调。
+ */
+function createRepairHandler(
+  context: RepairContext,
+  aiResponse: string,
+  historyId: string,
+  maxRounds: number
+): PlanRepairHandler {
+  const messages: ModelMessage[] = [...context.messages];
+  let lastResponse = aiResponse;
+  let round = 0;
+
+  return async (operations, errors) => {
+    if (round >= maxRounds) {
+      console.log(
+        CliStyle.warning(`已达到自动修复轮次上限 (${maxRounds})，停止修复。`)
+      );
+      return null;
+    }
+    round++;
+    console.log(
+      CliStyle.process(`\n--- 请求AI修复计划 (第 ${round}/${maxRounds} 轮) ---`)
+    );
+
+    try {
+      // 附带相关文件的当前内容，便于 AI 修正 find 文本等
+      const existingPaths: string[] = [];
+      for (const filePath of new Set(operations.flatMap(getTouchedPaths))) {
+        try {
+          await fs.access(filePath);
+          existingPaths.push(filePath);
+        } catch {
+          // 文件不存在，跳过
+        }
+      }
+      const fileContext =
+        existingPaths.length > 0 ? await getFileContext(existingPaths) : '';
+
+      messages.push(
+        { role: 'assistant', content: lastResponse },
+        { role: 'user', content: createRepairPrompt(errors, fileContext) }
+      );
+      const result = await requestAiResponse(
+        messages,
+        context.model,
+        context.temperature
+      );
+      const { response } = result;
+      lastResponse = response;
+      await addHistoryUsage(historyId, result);
+
+      const repairedOperations = await parseAiResponse(response);
+      const fileOps = repairedOperations.filter(
+        (op): op is FileOperation => op.type !== 'response'
+      );
+      if (fileOps.length === 0) {
+        console.log(CliStyle.warning('AI 未返回修复后的文件操作。'));
+        return null;
+      }
+
+      await updateHistoryPlan(
+        historyId,
+        response,
+        repairedOperations,
+        await captureSnapshot(fileOps)
+      );
+      context.onRepaired?.(response);
+      console.log(
+        CliStyle.success(`修复后的计划包含 ${fileOps.length} 个操作。`)
+      );
+      return fileOps;
+    } catch (error) {
+      console.error(
+        CliStyle.error(`修复计划失败: ${(error as Error).message}`)
+      );
+      return null;
+    }
+  };
+}
+
+/**
+ * 用修复后的响应和操作更新历史记录，并补充新涉及路径在执行前的状态。
+ * @param id - 历史ID。
+ * @param aiResponse - 修复后的AI响应。
+ * @param operations - 修复后的全部操作。
+ * @param snapshot - 新计划涉及路径的快照。
+ */
+async function updateHistoryPlan(
+  id: string,
+  aiResponse: string,
+  operations: AiOperation[],
+  snapshot: PlanSnapshot
+): Promise<void> {
+  await updateHistoryEntry(id, async (entry) => {
+    await loadEntryContents(entry);
+    entry.aiResponse = aiResponse;
+    entry.operations = operations;
+    recordSnapshot(entry, snapshot);
+  });
+}
+
+/**
+ * 将修复请求的 token 用量和耗时累加到历史记录。
+ * @param id - 历史ID。
+ * @param result - 修复请求的结果。
+ */
+async function addHistoryUsage(
+  id: string,
+  { usage, latencyMs }: AiRequestResult
+): Promise<void> {
+  await updateHistoryEntry(id, (entry) => {
+    if (usage) {
+      entry.usage = {
+        inputTokens: (entry.usage?.inputTokens ?? 0) + usage.inputTokens,
+        outputTokens: (entry.usage?.outputTokens ?? 0) + usage.outputTokens
+      };
+    }
+    entry.latencyMs = (entry.latencyMs ?? 0) + latencyMs;
+  });
+}
+
 /**
  * 更新历史记录的描述。
  * @param id - 历史ID。
@@ -428,12 +858,9 @@ async function updateHistoryDescription(
   id: string,
   newDescription: string
 ): Promise<void> {
-  const history = await loadHistory();
-  const entry = history.find((h: HistoryEntry) => h.id === id);
-  if (entry) {
+  await updateHistoryEntry(id, (entry) => {
     entry.description = newDescription;
-    await saveHistory(history);
-  }
+  });
 }
 
 /**
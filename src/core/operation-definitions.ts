@@ -29,13 +29,16 @@ type FieldConfig = {
 
 type TypedOperationConfig<T extends OperationType> = {
   description?: string;
+  // 多段替换变体（hunks）通过重复 find/content 块表达，不单独列出字段
   fields: {
-    [K in keyof Extract<AiOperation, { type: T }>]: FieldConfig;
+    [
+      K in keyof Exclude<Extract<AiOperation, { type: T }>, { hunks: unknown }>
+    ]: FieldConfig;
   };
 };
 
 type OperationConfigs = {
-  [K in Exclude<OperationType, 'edit'>]: TypedOperationConfig<K>;
+  [K in OperationType]: TypedOperationConfig<K>;
 };
 
 /**
@@ -73,7 +76,7 @@ export class OperationDescriptions {
 
     writeWithReplace: {
       description:
-        '编辑现有文件。find 参数留空时覆写整个文件；find 参数给定时，将查找到的目标文本替换为新文本。',
+        '编辑现有文件。find 参数留空时覆写整个文件；find 参数给定时，将查找到的目标文本替换为新文本。\n如需修改同一文件的多处，可在同一操作中按文件中出现的顺序重复多组 find 与 content 块（每个 find 块后紧跟其 content 块）。每个 find 都必须唯一匹配且互不重叠，所有修改会一次性应用。',
       fields: {
         type: { example: 'writeWithReplace' },
         filePath: {
@@ -96,34 +99,34 @@ export class OperationDescriptions {
         }
       }
     },
-    // edit: {
-    //   description: "编辑文件内容。如果提供了 startLine 和 endLine，则替换指定行范围内的内容（不包含 endLine）；否则，将用新内容完全覆盖整个文件。\n现在支持对同一文件进行多次 edit 操作。所有 startLine 和 endLine 相对于文件的初始状态。系统会自动跟踪初始行号并调整后续编辑的位置。为确保正确，请按从顶部到底部的顺序提供非重叠的编辑范围。",
-    //   fields: {
-    //     type: { example: "edit" },
-    //     filePath: {
-    //       example: "path/to/existing_file.jsx"
-    //     },
-    //     content: {
-    //       description: "要写入的内容",
-    //       isContent: true,
-    //       example: "const NewComponent = () => <div>Hello World</div>"
-    //     },
-    //     "startLine": {
-    //       description: "修改范围的起始行号（基于原始文件，从 1 开始计数）",
-    //       example: "5",
-    //       optional: true
-    //     },
-    //     "endLine": {
-    //       description: "修改范围的结束行号（基于原始文件，从 1 开始计数，不包含此行）。指定和 startLine 相同的值可实现插入效果",
-    //       example: "6",
-    //       optional: true
-    //     },
-    //     "comment": {
-    //       example: "修复了组件中的一个拼写错误。",
-    //       optional: true
-    //     }
-    //   }
-    // },
+    edit: {
+      description:
+        '按行号范围编辑现有文件，替换 [startLine, endLine) 范围内的行（不包含 endLine）。适用于 find 难以唯一定位的大文件。\n同一文件可以有多个 edit 操作，所有行号都基于文件的初始状态，系统会自动调整后续编辑的位置。请按从上到下的顺序提供互不重叠的范围，且不要对同一文件混用 edit 与其他操作。',
+      fields: {
+        type: { example: 'edit' },
+        filePath: {
+          example: 'path/to/existing_file.jsx'
+        },
+        comment: {
+          example: '修复了组件中的一个拼写错误。',
+          optional: true
+        },
+        startLine: {
+          description: '修改范围的起始行号（基于原始文件，从 1 开始计数）',
+          example: '5'
+        },
+        endLine: {
+          description:
+            '修改范围的结束行号（基于原始文件，不包含此行）。与 startLine 相同时为插入',
+          example: '6'
+        },
+        content: {
+          example: 'const NewComponent = () => <div>Hello World</div>',
+          description: '替换该范围的新内容，留空则删除该范围',
+          isBlock: true
+        }
+      }
+    },
     move: {
       description: '移动现有文件。',
       fields: {
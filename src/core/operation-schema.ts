@@ -4,6 +4,7 @@ export const OperationTypeSchema = z.enum([
   'response',
   'create',
   'writeWithReplace',
+  'edit',
   'move',
   'delete'
 ]);
@@ -31,6 +32,27 @@ export const writeWithReplaceOperationSchema = BaseOperationSchema.extend({
   content: z.string()
 });
 
+export const ReplaceHunkSchema = z.object({
+  find: z.string().min(1),
+  content: z.string()
+});
+
+export const writeWithReplaceHunksOperationSchema = BaseOperationSchema.extend({
+  type: z.literal('writeWithReplace'),
+  filePath: z.string().min(1),
+  hunks: z.array(ReplaceHunkSchema).min(1)
+});
+
+export const EditOperationSchema = BaseOperationSchema.extend({
+  type: z.literal('edit'),
+  filePath: z.string().min(1),
+  content: z.string(),
+  startLine: z.number().int().min(1),
+  endLine: z.number().int().min(1)
+}).refine((op) => op.startLine <= op.endLine, {
+  message: 'endLine 不能小于 startLine'
+});
+
 export const MoveOperationSchema = BaseOperationSchema.extend({
   type: z.literal('move'),
   oldPath: z.string().min(1),
@@ -45,6 +67,8 @@ export const DeleteOperationSchema = BaseOperationSchema.extend({
 export const FileOperationSchema = z.union([
   CreateOperationSchema,
   writeWithReplaceOperationSchema,
+  writeWithReplaceHunksOperationSchema,
+  EditOperationSchema,
   MoveOperationSchema,
   DeleteOperationSchema
 ]);
@@ -142,6 +166,23 @@ export type writeWithReplaceOperation = z.infer<
   typeof writeWithReplaceOperationSchema
 >;
 
+/**
+ * 多段替换的单个替换块类型
+ */
+export type ReplaceHunk = z.infer<typeof ReplaceHunkSchema>;
+
+/**
+ * 携带多个替换块的 writeWithReplace 操作类型
+ */
+export type writeWithReplaceHunksOperation = z.infer<
+  typeof writeWithReplaceHunksOperationSchema
+>;
+
+/**
+ * Edit 操作类型
+ */
+export type EditOperation = z.infer<typeof EditOperationSchema>;
+
 /**
  * Move 操作类型
  */
@@ -161,3 +202,15 @@ export type AiOperation = z.infer<typeof AiOperationSchema>;
  * 文件操作的联合类型
  */
 export type FileOperation = z.infer<typeof FileOperationSchema>;
+
+/**
+ * 将 writeWithReplace 操作统一转换为按顺序排列的替换块列表。
+ * 单段替换的 find 可能为空，表示覆写整个文件。
+ * @param op - writeWithReplace 操作（单段或多段）。
+ * @returns 替换块数组。
+ */
+export function toReplaceHunks(
+  op: writeWithReplaceOperation | writeWithReplaceHunksOperation
+): Array<{ find?: string; content: string }> {
+  return 'hunks' in op ? op.hunks : [{ find: op.find, content: op.content }];
+}
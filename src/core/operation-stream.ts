@@ -0,0 +1,169 @@
+import { parseOperationBlock } from './ai-response-parser';
+import {
+  endDelimiter,
+  endDelimiterRegex,
+  startDelimiter,
+  startDelimiterRegex
+} from './operation-definitions';
+import { AiOperation } from './operation-schema';
+
+/**
+ * 流式响应中一个结束的操作块。
+ */
+export interface StreamedOperationBlock {
+  /** 操作块的序号，从 1 开始。 */
+  index: number;
+  /** 开始定界符所在的行号（从 1 开始）。 */
+  startLine: number;
+  /** 结束定界符所在的行号。 */
+  endLine: number;
+  /** 解析并验证通过的操作。 */
+  operation?: AiOperation;
+  /** 操作块无效的原因。 */
+  error?: string;
+}
+
+/**
+ * 增量解析过程中的回调。
+ */
+export interface OperationStreamHandlers {
+  /** 收到操作块之外的一行文本，在之前的操作块解析完成后调用。 */
+  onText?: (line: string) => void;
+  /** 开始接收一个操作块。 */
+  onBlockStart?: (index: number) => void;
+  /** 一个操作块结束，按操作块顺序调用。 */
+  onBlock?: (block: StreamedOperationBlock) => void;
+}
+
+/**
+ * 增量解析定界格式操作的解析器。
+ */
+export interface OperationStream {
+  /** 输入新收到的响应文本。 */
+  push(delta: string): void;
+  /**
+   * 结束输入，等待已结束的操作块全部解析完成。
+   * @returns 响应结束时未完成的操作块的描述；没有时返回 undefined。
+   */
+  end(): Promise<string | undefined>;
+}
+
+/**
+ * 创建增量解析定界格式操作的解析器。响应按行处理：操作块之外的行通过 onText 输出，
+ * 每遇到 `--- OPERATION end ---` 就解析该操作块并通过 onBlock 输出，无需等待完整响应。
+ * 定界符的识别规则与 parseAiResponse 一致。
+ * @param handlers - 解析过程中的回调。
+ * @returns 解析器。
+ */
+export function createOperationStream(
+  handlers: OperationStreamHandlers
+): OperationStream {
+  let buffer = '';
+  let lineNumber = 0;
+  let blockCount = 0;
+  // 正在接收的操作块
+  let current: {
+    index: number;
+    startLine: number;
+    lines: string[];
+    // 尚未关闭的内容块及其开始行号
+    openKey?: string;
+    openLine?: number;
+  } | null = null;
+  // 按顺序解析已结束的操作块，文本和操作块的回调都排在之前的解析之后，保证输出顺序与响应一致
+  let parsing: Promise<void> = Promise.resolve();
+
+  const emitText = (line: string) => {
+    parsing = parsing.then(() => handlers.onText?.(line));
+  };
+
+  const finishBlock = (block: StreamedOperationBlock, content?: string) => {
+    parsing = parsing.then(async () => {
+      if (content !== undefined) {
+        try {
+          block.operation = await parseOperationBlock(content);
+        } catch (error) {
+          block.error = (error as Error).message;
+        }
+      }
+      handlers.onBlock?.(block);
+    });
+  };
+
+  const processLine = (line: string) => {
+    lineNumber++;
+    const trimmedLine = line.trim();
+
+    if (trimmedLine === startDelimiter()) {
+      if (current) {
+        finishBlock({
+          index: current.index,
+          startLine: current.startLine,
+          endLine: lineNumber - 1,
+          error: `在结束定界符之前遇到新的操作块（第 ${lineNumber} 行），已忽略`
+        });
+      }
+      current = { index: ++blockCount, startLine: lineNumber, lines: [] };
+      handlers.onBlockStart?.(current.index);
+      return;
+    }
+
+    if (!current) {
+      // 孤立的结束定界符与 parseAiResponse 一样忽略
+      if (trimmedLine !== endDelimiter()) emitText(line);
+      return;
+    }
+
+    if (trimmedLine === endDelimiter()) {
+      const content = current.lines.join('\n');
+      finishBlock(
+        {
+          index: current.index,
+          startLine: current.startLine,
+          endLine: lineNumber,
+          error: content.trim() ? undefined : '操作块为空'
+        },
+        content.trim() ? content : undefined
+      );
+      current = null;
+      return;
+    }
+
+    current.lines.push(line);
+    // 跟踪未关闭的内容块，用于描述截断的位置
+    const startMatch = startDelimiterRegex.exec(trimmedLine);
+    const endMatch = endDelimiterRegex.exec(trimmedLine);
+    if (startMatch && !current.openKey) {
+      current.openKey = startMatch[1];
+      current.openLine = lineNumber;
+    } else if (endMatch && endMatch[1] === current.openKey) {
+      current.openKey = undefined;
+      current.openLine = undefined;
+    }
+  };
+
+  return {
+    push(delta: string) {
+      buffer += delta;
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        processLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    },
+
+    async end() {
+      if (buffer) {
+        processLine(buffer);
+        buffer = '';
+      }
+      await parsing;
+      if (!current) return undefined;
+
+      const reason = current.openKey
+        ? `${current.openKey} 块（第 ${current.openLine} 行开始）未关闭`
+        : `缺少结束定界符 '${endDelimiter()}'`;
+      return `操作 ${current.index}（第 ${current.startLine} 行开始）不完整: ${reason}，响应在第 ${lineNumber} 行结束`;
+    }
+  };
+}
@@ -6,10 +6,18 @@ import {
   validateOperation,
   validateOperations,
   ValidationResult,
-  FileOperation
+  FileOperation,
+  EditOperation,
+  toReplaceHunks
 } from './operation-schema';
-import { isFileIgnored, computeFindMatchCount } from '../utils/file-utils';
+import {
+  countLines,
+  isFileIgnored,
+  locateReplaceHunks
+} from '../utils/file-utils';
 import { findGitRoot } from '../utils/file-utils';
+import { getFuzzyMatchEnabled } from '../utils/config-manager';
+import { FindMatchOptions } from '../utils/find-matcher';
 
 /**
  * 使用 Zod 的简化操作验证工具。
@@ -36,17 +44,24 @@ export class OperationValidator {
   /**
    * 验证操作的可达性（文件系统检查）。
    * @param op - 要验证的操作对象。
+   * @param options - find 的查找选项，默认按配置决定是否启用模糊匹配。
    * @returns 验证结果。
    */
   static async validateOperationReachability(
-    op: FileOperation
+    op: FileOperation,
+    options?: FindMatchOptions
   ): Promise<ValidationResult> {
     try {
       switch (op.type) {
         case 'create':
           return await this.validateCreateReachability(op);
         case 'writeWithReplace':
-          return await this.validatewriteWithReplaceReachability(op);
+          return await this.validatewriteWithReplaceReachability(
+            op,
+            options ?? { fuzzy: await getFuzzyMatchEnabled() }
+          );
+        case 'edit':
+          return await this.validateEditReachability(op);
         case 'move':
           return await this.validateMoveReachability(op);
         case 'delete':
@@ -72,15 +87,18 @@ export class OperationValidator {
   /**
    * 验证操作数组的可达性。
    * @param operations - 文件操作数组。
+   * @param options - find 的查找选项，默认按配置决定是否启用模糊匹配。
    * @returns 验证结果。
    */
   static async validateOperationsReachability(
-    operations: FileOperation[]
+    operations: FileOperation[],
+    options?: FindMatchOptions
   ): Promise<ValidationResult> {
+    const matchOptions = options ?? { fuzzy: await getFuzzyMatchEnabled() };
     const errors: string[] = [];
     for (let i = 0; i < operations.length; i++) {
       const op = operations[i];
-      const result = await this.validateOperationReachability(op);
+      const result = await this.validateOperationReachability(op, matchOptions);
       if (!result.isValid) {
         result.errors?.forEach((error) => {
           errors.push(`操作 ${i + 1} (${op.type}): ${error}`);
@@ -88,6 +106,8 @@ export class OperationValidator {
       }
     }
 
+    errors.push(...this.validateEditRanges(operations));
+
     if (errors.length > 0) {
       return { isValid: false, errors };
     }
@@ -95,6 +115,57 @@ export class OperationValidator {
     return { isValid: true };
   }
 
+  /**
+   * 验证同一文件的多个 edit 操作之间互不重叠，且不与其他操作混用。
+   * @param operations - 文件操作数组。
+   * @returns 错误信息数组。
+   */
+  private static validateEditRanges(operations: FileOperation[]): string[] {
+    const errors: string[] = [];
+    const editsByFile = new Map<
+      string,
+      Array<{ index: number; startLine: number; endLine: number }>
+    >();
+
+    operations.forEach((op, index) => {
+      if (op.type === 'edit') {
+        const edits = editsByFile.get(op.filePath) || [];
+        edits.push({ index, startLine: op.startLine, endLine: op.endLine });
+        editsByFile.set(op.filePath, edits);
+      }
+    });
+
+    for (const [filePath, edits] of editsByFile) {
+      // edit 的行号基于文件初始状态，与其他操作混用会导致行号失效
+      const mixedIndex = operations.findIndex(
+        (op) =>
+          op.type !== 'edit' &&
+          (op.type === 'move'
+            ? op.oldPath === filePath || op.newPath === filePath
+            : op.filePath === filePath)
+      );
+      if (mixedIndex >= 0) {
+        errors.push(
+          `操作 ${mixedIndex + 1} (${operations[mixedIndex].type}): 文件 ${filePath} 已有 edit 操作，不能混用其他操作`
+        );
+      }
+
+      for (let i = 0; i < edits.length; i++) {
+        for (let j = i + 1; j < edits.length; j++) {
+          const a = edits[i];
+          const b = edits[j];
+          if (a.startLine < b.endLine && b.startLine < a.endLine) {
+            errors.push(
+              `操作 ${b.index + 1} (edit): 行范围 ${b.startLine}-${b.endLine} 与操作 ${a.index + 1} 的行范围 ${a.startLine}-${a.endLine} 重叠: ${filePath}`
+            );
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * 验证创建操作的可达性。
    */
@@ -121,7 +192,8 @@ export class OperationValidator {
    * 验证替换操作的可达性。
    */
   private static async validatewriteWithReplaceReachability(
-    op: FileOperation
+    op: Extract<FileOperation, { type: 'writeWithReplace' }>,
+    options: FindMatchOptions
   ): Promise<ValidationResult> {
     const filePath = (op as any).filePath;
     if (!filePath) {
@@ -141,22 +213,21 @@ export class OperationValidator {
       // 检查文件是否存在
       await fs.access(filePath);
 
-      // 如果提供了find参数，验证它在文件中是否存在
-      const find = (op as any).find;
-      if (find) {
+      // 验证每个替换块的 find 在文件中唯一存在，且替换块之间互不重叠
+      const hunks = toReplaceHunks(op);
+      if (hunks.length > 1 && hunks.some((hunk) => !hunk.find)) {
+        return {
+          isValid: false,
+          errors: ['多段替换中每个替换块都必须提供 find']
+        };
+      }
+      if (hunks.some((hunk) => hunk.find)) {
         const content = await fs.readFile(filePath, 'utf-8');
-        const findCount = computeFindMatchCount(content, find);
-        if (findCount === 0) {
-          return {
-            isValid: false,
-            errors: [`在文件中找不到要替换的文本: ${filePath}\n${find}\n`]
-          };
-        } else if (findCount > 1) {
+        const { errors } = locateReplaceHunks(content, hunks, options);
+        if (errors.length > 0) {
           return {
             isValid: false,
-            errors: [
-              `在文件中找到多个匹配项 (${findCount}个)，需要更具体的查找文本: ${filePath}`
-            ]
+            errors: errors.map((error) => `${filePath}: ${error}`)
           };
         }
       }
@@ -167,6 +238,47 @@ export class OperationValidator {
     }
   }
 
+  /**
+   * 验证行范围编辑操作的可达性。
+   */
+  private static async validateEditReachability(
+    op: EditOperation
+  ): Promise<ValidationResult> {
+    try {
+      const root = await findGitRoot();
+      const relativePath = path.relative(root, op.filePath);
+      if (await isFileIgnored(relativePath)) {
+        return {
+          isValid: false,
+          errors: ['文件被 .gitignore 忽略，无法执行 edit 操作。']
+        };
+      }
+
+      const content = await fs.readFile(op.filePath, 'utf-8');
+      const lineCount = countLines(content);
+      if (op.startLine > op.endLine) {
+        return {
+          isValid: false,
+          errors: [
+            `endLine (${op.endLine}) 不能小于 startLine (${op.startLine})`
+          ]
+        };
+      }
+      if (op.endLine > lineCount + 1) {
+        return {
+          isValid: false,
+          errors: [
+            `行范围 ${op.startLine}-${op.endLine} 超出文件范围 (共 ${lineCount} 行): ${op.filePath}`
+          ]
+        };
+      }
+
+      return { isValid: true };
+    } catch (error) {
+      return { isValid: false, errors: [`无法访问文件: ${op.filePath}`] };
+    }
+  }
+
   /**
    * 验证移动操作的可达性。
    */
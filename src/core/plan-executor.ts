@@ -4,27 +4,359 @@ import inquirer from 'inquirer';
 // import ora from 'ora'; // ora 似乎未被使用，可以移除
 
 import { CliStyle } from '../utils/cli-style';
+import { getFuzzyMatchEnabled, getGitConfig } from '../utils/config-manager';
 import {
   replaceLines,
   replaceInFile,
+  LineOffsetTracker,
   createFile,
   writeFileWithReplace,
   moveFile,
   deleteFile
 } from '../utils/file-utils';
-import { FileOperation, AiOperation } from './operation-schema';
+import {
+  commitPaths,
+  createBranch,
+  deleteBranch,
+  getCurrentBranch,
+  getGitRoot,
+  getUncommittedPaths,
+  hasUncommittedChanges,
+  popStash,
+  stashChanges,
+  switchBranch
+} from '../utils/git-utils';
+import { FindMatchOptions } from '../utils/find-matcher';
+import { FileOperation, AiOperation, toReplaceHunks } from './operation-schema';
 import { OperationValidator } from './operation-validator';
 
 /**
- * 执行AI提议的文件操作列表。
+ * 计划执行前的工作区快照，用于失败时回滚，执行成功后记录到历史以支持撤销。
+ */
+export interface PlanSnapshot {
+  /** 每个受影响路径执行前的内容，null 表示执行前文件不存在。 */
+  files: Map<string, string | null>;
+  /** 执行前不存在、可能由计划创建的目录（由深到浅排序）。 */
+  createdDirs: string[];
+}
+
+/**
+ * 获取单个操作会触及的所有文件路径。
+ * @param op - 文件操作。
+ * @returns 路径数组（move 操作包含源路径和目标路径）。
+ */
+export function getTouchedPaths(op: FileOperation): string[] {
+  return op.type === 'move' ? [op.oldPath, op.newPath] : [op.filePath];
+}
+
+/**
+ * 为计划涉及的所有路径创建快照，包括 move 的目标路径、新建文件以及需要创建的父目录。
+ * @param operations - 文件操作数组。
+ * @returns 工作区快照。
+ */
+export async function captureSnapshot(
+  operations: FileOperation[]
+): Promise<PlanSnapshot> {
+  const files = new Map<string, string | null>();
+  const createdDirs = new Set<string>();
+
+  for (const op of operations) {
+    for (const filePath of getTouchedPaths(op)) {
+      if (files.has(filePath)) continue;
+      try {
+        files.set(filePath, await fs.readFile(filePath, 'utf-8'));
+      } catch {
+        files.set(filePath, null);
+      }
+    }
+
+    // 记录 create/move 可能递归创建的目录
+    if (op.type === 'create' || op.type === 'move') {
+      const target = op.type === 'create' ? op.filePath : op.newPath;
+      let dir = path.dirname(target);
+      while (dir !== path.dirname(dir) && !createdDirs.has(dir)) {
+        try {
+          await fs.access(dir);
+          break;
+        } catch {
+          createdDirs.add(dir);
+          dir = path.dirname(dir);
+        }
+      }
+    }
+  }
+
+  return {
+    files,
+    createdDirs: [...createdDirs].sort((a, b) => b.length - a.length)
+  };
+}
+
+/**
+ * 将工作区恢复到快照状态：还原原有文件、删除新建文件并移除计划创建的空目录。
+ * @param snapshot - 执行前的快照。
+ * @returns 恢复失败的路径及原因。
+ */
+export async function restoreSnapshot(
+  snapshot: PlanSnapshot
+): Promise<string[]> {
+  const failures: string[] = [];
+
+  for (const [filePath, content] of snapshot.files) {
+    try {
+      if (content === null) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content, 'utf-8');
+      }
+    } catch (error) {
+      failures.push(
+        `${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  await removeCreatedDirs(snapshot.createdDirs);
+
+  return failures;
+}
+
+/**
+ * 删除计划创建的目录。仅删除空目录，非空目录会被保留。
+ * @param dirs - 目录列表（由深到浅排序）。
+ */
+export async function removeCreatedDirs(dirs: string[]): Promise<void> {
+  for (const dir of dirs) {
+    // rmdir 对非空目录会失败，忽略即可
+    await fs.rmdir(dir).catch(() => {});
+  }
+}
+
+/**
+ * Git 集成模式下一次计划执行的状态。
+ */
+interface GitExecution {
+  root: string;
+  /** 执行前所在的分支，分离头指针时为 null。 */
+  originalBranch: string | null;
+  /** branch 模式下为计划创建的分支。 */
+  branch?: string;
+  /** 执行前是否暂存了未提交的更改。 */
+  stashed: boolean;
+}
+
+/**
+ * 根据计划描述和操作注释生成提交信息。
+ * @param planDescription - 计划描述（通常为用户请求）。
+ * @param operations - 已执行的文件操作。
+ * @param root - 仓库根目录，用于显示相对路径。
+ * @returns 提交信息。
+ */
+function createCommitMessage(
+  planDescription: string,
+  operations: FileOperation[],
+  root: string
+): string {
+  const summary = planDescription.trim().split('\n')[0] || 'AI plan execution';
+  const subject = summary.length > 72 ? `${summary.slice(0, 69)}...` : summary;
+  const body = operations.map((op) => {
+    const target = getTouchedPaths(op)
+      .map((filePath) => path.relative(root, filePath))
+      .join(' -> ');
+    return `- ${op.type} ${target}${op.comment ? `: ${op.comment}` : ''}`;
+  });
+  return `mai: ${subject}\n\n${body.join('\n')}\n`;
+}
+
+/**
+ * 按配置准备 Git 集成：检查未提交的更改（拒绝或暂存），branch 模式下创建新分支。
+ * 计划是基于当前工作区验证的，暂存会把文件恢复为已提交的内容，
+ * 因此计划涉及的路径有未提交的更改时，即使配置为暂存也拒绝执行。
+ * @param operations - 要执行的文件操作。
+ * @param planDescription - 计划描述。
+ * @returns Git 执行状态；未启用 Git 集成或不在 Git 仓库中时返回 null。
+ * @throws {Error} 如果工作区有未提交的更改且配置为拒绝执行或计划涉及这些路径，或 git 命令失败。
+ */
+async function prepareGitExecution(
+  operations: FileOperation[],
+  planDescription: string
+): Promise<GitExecution | null> {
+  const { mode, dirtyTree } = await getGitConfig();
+  if (mode === 'off') return null;
+
+  const root = await getGitRoot();
+  if (!root) {
+    console.log(CliStyle.warning('当前目录不在 Git 仓库中，跳过 Git 集成。'));
+    return null;
+  }
+
+  const execution: GitExecution = {
+    root,
+    originalBranch: await getCurrentBranch(root),
+    stashed: false
+  };
+
+  if (await hasUncommittedChanges(root)) {
+    if (dirtyTree !== 'stash') {
+      throw new Error(
+        '工作区有未提交的更改，Git 集成模式下拒绝执行计划。请先提交或暂存更改，或将 git.dirtyTree 设置为 stash'
+      );
+    }
+    const touchedPaths = new Set(
+      operations.flatMap(getTouchedPaths).map((p) => path.resolve(p))
+    );
+    const conflicts = (await getUncommittedPaths(root)).filter((p) =>
+      touchedPaths.has(p)
+    );
+    if (conflicts.length > 0) {
+      throw new Error(
+        `计划涉及有未提交更改的文件，暂存后这些文件会恢复为已提交的内容，与计划不一致: ${conflicts
+          .map((p) => path.relative(root, p))
+          .join(', ')}。请先提交或暂存这些文件`
+      );
+    }
+    await stashChanges(
+      root,
+      `mai: 执行计划前暂存 (${planDescription.trim().split('\n')[0]})`
+    );
+    execution.stashed = true;
+    console.log(CliStyle.info('已暂存工作区中未提交的更改 (git stash)。'));
+  }
+
+  if (mode === 'branch') {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace('T', '-')
+      .slice(0, 15);
+    const branch = `mai/plan-${timestamp}`;
+    try {
+      await createBranch(root, branch);
+    } catch (error) {
+      await restoreStashedChanges(execution);
+      throw error;
+    }
+    execution.branch = branch;
+    console.log(CliStyle.info(`已创建并切换到分支: ${branch}`));
+  }
+
+  return execution;
+}
+
+/**
+ * 恢复执行前暂存的更改。恢复失败（如冲突）时更改保留在 stash 中。
+ */
+async function restoreStashedChanges(execution: GitExecution): Promise<void> {
+  if (!execution.stashed) return;
+  try {
+    await popStash(execution.root);
+    console.log(CliStyle.info('已恢复执行前暂存的更改 (git stash pop)。'));
+  } catch (error) {
+    console.log(
+      CliStyle.warning(
+        `恢复暂存的更改失败: ${(error as Error).message}。更改仍保留在 stash 中，请手动处理。`
+      )
+    );
+  }
+}
+
+/**
+ * 计划执行成功后，将计划涉及的路径提交为一个 commit，并恢复暂存的更改。
+ * 提交失败时不恢复暂存的更改，由调用方回滚后通过 abortGitExecution 处理。
+ * @returns 新提交的 SHA；没有提交时返回 undefined。
+ * @throws {Error} 如果提交失败。
+ */
+async function finishGitExecution(
+  execution: GitExecution,
+  operations: FileOperation[],
+  planDescription: string
+): Promise<string | undefined> {
+  const sha = await commitPaths(
+    execution.root,
+    operations.flatMap(getTouchedPaths),
+    createCommitMessage(planDescription, operations, execution.root)
+  );
+  if (sha) {
+    console.log(
+      CliStyle.success(
+        `已提交计划: ${sha.slice(0, 7)}${execution.branch ? ` (分支 ${execution.branch})` : ''}`
+      )
+    );
+  } else {
+    console.log(CliStyle.warning('计划没有产生可提交的更改。'));
+  }
+  await restoreStashedChanges(execution);
+  return sha ?? undefined;
+}
+
+/**
+ * 计划执行失败并回滚后，切回原分支、删除为计划创建的分支并恢复暂存的更改。
+ */
+async function abortGitExecution(execution: GitExecution): Promise<void> {
+  if (execution.branch && execution.originalBranch) {
+    try {
+      await switchBranch(execution.root, execution.originalBranch);
+      await deleteBranch(execution.root, execution.branch);
+    } catch (error) {
+      console.log(
+        CliStyle.warning(
+          `清理分支 ${execution.branch} 失败: ${(error as Error).message}`
+        )
+      );
+    }
+  }
+  await restoreStashedChanges(execution);
+}
+
+/**
+ * 执行失败后将工作区回滚到执行前的状态，并撤销 Git 集成所做的准备。
+ * @param snapshot - 执行前的快照。
+ * @param gitExecution - Git 集成的执行状态。
+ * @param failure - 失败原因，用作抛出错误的前半部分。
+ * @throws {Error} 总是抛出，说明失败原因以及是否已完全回滚。
+ */
+async function rollbackExecution(
+  snapshot: PlanSnapshot,
+  gitExecution: GitExecution | null,
+  failure: string
+): Promise<never> {
+  const rollbackFailures = await restoreSnapshot(snapshot);
+  if (rollbackFailures.length > 0) {
+    if (gitExecution?.branch || gitExecution?.stashed) {
+      console.log(
+        CliStyle.warning(
+          '回滚未完全成功，已保留当前分支和暂存的更改 (git stash)，请手动处理。'
+        )
+      );
+    }
+    rollbackFailures.forEach((rollbackFailure) => {
+      console.error(CliStyle.error(`    回滚失败: ${rollbackFailure}`));
+    });
+    throw new Error(
+      `${failure}；回滚未完全成功，请手动检查 ${rollbackFailures.length} 个文件`
+    );
+  }
+  if (gitExecution) {
+    await abortGitExecution(gitExecution);
+  }
+  console.log(CliStyle.success('已回滚，工作区恢复到执行前的状态。'));
+  throw new Error(`${failure}；已回滚所有更改`);
+}
+
+/**
+ * 以事务方式执行AI提议的文件操作列表：任一操作失败时，工作区会回滚到执行前的状态。
  * @param operations - 要执行的 FileOperation 对象数组。
- * @param planDescription - 描述此次计划的字符串，用于检查点。
- * @returns 操作执行结果数组，包含成功/失败状态。
- * @throws {Error} 如果计划包含无效操作或执行不完整。
+ * 启用 Git 集成（git.mode）时，计划会在干净的工作区上执行并提交为一个 commit。
+ * @param planDescription - 描述此次计划的字符串，用于检查点和提交信息。
+ * @param options - find 的查找选项，默认按配置决定是否启用模糊匹配。
+ * @returns 操作执行结果数组，包含成功/失败状态，以及 Git 集成模式下的提交 SHA。
+ * @throws {Error} 如果计划包含无效操作、工作区不满足 Git 集成要求、某个操作执行失败或提交失败（后两种情况已回滚）。
  */
 export async function executePlan(
   operations: FileOperation[],
-  planDescription: string
+  planDescription: string,
+  options?: FindMatchOptions
 ): Promise<{
   executionResults: Array<{
     operation: FileOperation;
@@ -32,31 +364,14 @@ export async function executePlan(
     error?: string;
   }>;
   fileOriginalContents: Map<string, string>;
+  /** 执行前（审查完成后）涉及路径的快照。 */
+  snapshot: PlanSnapshot;
   successfulOps: number;
   failedOps: number;
+  gitCommit?: string;
 }> {
   console.log(CliStyle.info('\n正在执行计划...'));
 
-  // 预加载需要备份的文件初始内容
-  const filesToBackup: Set<string> = new Set();
-  for (const op of operations) {
-    if (op.type === 'writeWithReplace' || op.type === 'delete') {
-      filesToBackup.add(op.filePath);
-    }
-  }
-
-  const fileOriginalContents = new Map<string, string>();
-  for (const filePath of filesToBackup) {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      fileOriginalContents.set(filePath, content);
-    } catch (err) {
-      // 文件不存在，跳过
-    }
-  }
-
-  console.log(CliStyle.info('\n正在执行计划...'));
-
   // 使用 Zod 验证操作
   const validation = OperationValidator.validateOperations(operations);
   if (!validation.isValid) {
@@ -65,10 +380,18 @@ export async function executePlan(
     );
   }
 
-  // 创建可变操作数组以支持撤销
-  const executedOperations: FileOperation[] = operations.map((op) => ({
-    ...op
-  }));
+  const matchOptions = options ?? { fuzzy: await getFuzzyMatchEnabled() };
+  const gitExecution = await prepareGitExecution(operations, planDescription);
+
+  // 执行前为所有受影响路径创建快照
+  const snapshot = await captureSnapshot(operations);
+  const fileOriginalContents = new Map<string, string>();
+  for (const [filePath, content] of snapshot.files) {
+    if (content !== null) {
+      fileOriginalContents.set(filePath, content);
+    }
+  }
+
   const executionResults: Array<{
     operation: FileOperation;
     success: boolean;
@@ -76,8 +399,11 @@ export async function executePlan(
   }> = [];
   let successfulOps = 0;
   let failedOps = 0;
+  // edit 操作的行号基于文件初始状态，需要跟踪之前编辑造成的偏移
+  const lineTracker = new LineOffsetTracker();
 
-  for (const op of executedOperations) {
+  for (let i = 0; i < operations.length; i++) {
+    const op = operations[i];
     const result: {
       operation: FileOperation;
       success: boolean;
@@ -91,9 +417,25 @@ export async function executePlan(
           await createFile(op.filePath, op.content);
           break;
         case 'writeWithReplace':
-          await writeFileWithReplace(op.filePath, op.content, op.find);
+          await writeFileWithReplace(
+            op.filePath,
+            toReplaceHunks(op),
+            matchOptions
+          );
           break;
 
+        case 'edit': {
+          const range = lineTracker.map(op.filePath, op.startLine, op.endLine);
+          await replaceLines(
+            op.filePath,
+            op.content,
+            range.startLine,
+            range.endLine
+          );
+          lineTracker.record(op.filePath, op.startLine, op.endLine, op.content);
+          break;
+        }
+
         case 'move':
           await moveFile(op.oldPath, op.newPath);
           break;
@@ -116,28 +458,56 @@ export async function executePlan(
       executionResults.push(result);
       failedOps++;
 
+      const opTarget = getTouchedPaths(op).join(' -> ');
       console.error(
-        CliStyle.error(
-          `\n  执行失败: ${JSON.stringify({ type: op.type, filePath: op.type === 'move' ? op.newPath : op.filePath })}`
-        )
+        CliStyle.error(`\n  操作 ${i + 1} 执行失败: ${op.type} ${opTarget}`)
       );
       console.error(CliStyle.error(`    错误: ${errorMessage}`));
-      console.log(CliStyle.warning('停止执行剩余操作。'));
+      console.log(
+        CliStyle.warning('停止执行剩余操作，正在回滚已执行的更改...')
+      );
+
+      await rollbackExecution(
+        snapshot,
+        gitExecution,
+        `操作 ${i + 1} (${op.type} ${opTarget}) 执行失败: ${errorMessage}`
+      );
     }
   }
 
-  // 检查执行结果
   const totalOps = executionResults.length;
-  const executionComment = `执行完成: ${successfulOps} 成功, ${failedOps} 失败 (共 ${totalOps} 个操作)`;
-  console.log(CliStyle.success(executionComment));
-  const executionDescription = `执行结果: ${successfulOps}/${totalOps} 个操作成功 (${failedOps} 个失败)`;
+  console.log(
+    CliStyle.success(`执行完成: ${successfulOps} 成功 (共 ${totalOps} 个操作)`)
+  );
+  console.log(CliStyle.success('✓ 所有操作执行成功！'));
 
-  // 如果有失败操作，抛出错误
-  if (failedOps > 0) {
-    throw new Error(`计划执行不完整: ${failedOps} 个操作执行失败`);
+  let gitCommit: string | undefined;
+  if (gitExecution) {
+    try {
+      gitCommit = await finishGitExecution(
+        gitExecution,
+        operations,
+        planDescription
+      );
+    } catch (error) {
+      console.error(
+        CliStyle.error(`\n提交计划失败: ${(error as Error).message}`)
+      );
+      console.log(CliStyle.warning('正在回滚已执行的更改...'));
+      await rollbackExecution(
+        snapshot,
+        gitExecution,
+        `提交计划失败: ${(error as Error).message}`
+      );
+    }
   }
 
-  console.log(CliStyle.success('✓ 所有操作执行成功！'));
-
-  return { executionResults, fileOriginalContents, successfulOps, failedOps };
+  return {
+    executionResults,
+    fileOriginalContents,
+    snapshot,
+    successfulOps,
+    failedOps,
+    ...(gitCommit ? { gitCommit } : {})
+  };
 }
@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { FileOperation } from './operation-schema';
+import { createPlanPatch, parsePatchToOperations } from './plan-patch';
+import { VirtualWorkspace } from './plan-preview';
+
+let root: string;
+const originalCwd = process.cwd();
+const originalHome = process.env.HOME;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mai-patch-'));
+  // 补丁路径相对于仓库根目录；HOME 指向空目录以使用默认配置
+  await fs.mkdir(path.join(root, '.git'));
+  await fs.mkdir(path.join(root, 'home'));
+  process.env.HOME = path.join(root, 'home');
+  process.chdir(root);
+});
+
+afterEach(async () => {
+  process.chdir(originalCwd);
+  process.env.HOME = originalHome;
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * 在当前磁盘状态上模拟执行操作，返回指定文件的最终内容。
+ */
+async function simulate(
+  operations: FileOperation[],
+  files: string[]
+): Promise<Array<string | null>> {
+  const workspace = new VirtualWorkspace();
+  for (const op of operations) {
+    const { after } = await workspace.preview(op);
+    workspace.commit(op, after);
+  }
+  return Promise.all(files.map((file) => workspace.read(file)));
+}
+
+describe('plan patch', () => {
+  it('round-trips renames, new files, deletions and missing final newlines', async () => {
+    const file = (name: string) => path.join(root, name);
+    await fs.mkdir(file('src'));
+    await fs.writeFile(file('src/old.js'), 'const a = 1;\nconst b = 2;\n');
+    await fs.writeFile(file('notes.txt'), 'first\nsecond');
+    await fs.writeFile(file('obsolete.txt'), 'bye\n');
+
+    const operations: FileOperation[] = [
+      {
+        type: 'move',
+        oldPath: file('src/old.js'),
+        newPath: file('src/new.js')
+      },
+      {
+        type: 'writeWithReplace',
+        filePath: file('src/new.js'),
+        find: 'const b = 2;',
+        content: 'const b = 3;'
+      },
+      {
+        type: 'create',
+        filePath: file('src/added.js'),
+        content: 'export {};\n'
+      },
+      {
+        type: 'writeWithReplace',
+        filePath: file('notes.txt'),
+        find: 'second',
+        content: 'second\nthird'
+      },
+      { type: 'delete', filePath: file('obsolete.txt') }
+    ];
+
+    const patch = await createPlanPatch(operations);
+    expect(patch).toContain('rename from src/old.js\nrename to src/new.js');
+    expect(patch).toContain('new file mode 100644');
+    expect(patch).toContain('deleted file mode 100644');
+    expect(patch).toContain('\\ No newline at end of file');
+    expect(patch).not.toContain(root);
+
+    const imported = await parsePatchToOperations(patch);
+    expect(imported.map((op) => op.type).sort()).toEqual([
+      'create',
+      'delete',
+      'move',
+      'writeWithReplace',
+      'writeWithReplace'
+    ]);
+
+    const files = [
+      'src/old.js',
+      'src/new.js',
+      'src/added.js',
+      'notes.txt',
+      'obsolete.txt'
+    ].map(file);
+    const expected = await simulate(operations, files);
+    expect(expected).toEqual([
+      null,
+      'const a = 1;\nconst b = 3;\n',
+      'export {};\n',
+      'first\nsecond\nthird',
+      null
+    ]);
+    expect(await simulate(imported, files)).toEqual(expected);
+  });
+
+  it('returns an empty patch when the plan changes nothing', async () => {
+    const filePath = path.join(root, 'same.txt');
+    await fs.writeFile(filePath, 'same\n');
+    expect(
+      await createPlanPatch([
+        { type: 'writeWithReplace', filePath, find: 'same', content: 'same' }
+      ])
+    ).toBe('');
+  });
+
+  it('refuses a patch that does not match the current file', async () => {
+    await fs.writeFile(path.join(root, 'a.txt'), 'changed\n');
+    const patch = [
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,1 +1,1 @@',
+      '-original',
+      '+updated',
+      ''
+    ].join('\n');
+    await expect(parsePatchToOperations(patch)).rejects.toThrow(
+      '补丁无法应用到 a.txt'
+    );
+  });
+});
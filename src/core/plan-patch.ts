@@ -0,0 +1,322 @@
+import * as path from 'path';
+import { applyPatch, parsePatch, structuredPatch } from 'diff';
+
+import { findGitRoot } from '../utils/file-utils';
+import { FileOperation } from './operation-schema';
+import { getTouchedPaths } from './plan-executor';
+import { VirtualWorkspace } from './plan-preview';
+
+/**
+ * 判断文本是否为统一差异（unified diff）或 git 风格的补丁。
+ * @param text - 要检查的文本。
+ * @returns 如果看起来是补丁则返回 true。
+ */
+export function looksLikePatch(text: string): boolean {
+  const trimmed = text.trimStart();
+  return (
+    trimmed.startsWith('diff --git ') ||
+    trimmed.startsWith('Index: ') ||
+    (trimmed.startsWith('--- ') && /^\+\+\+ /m.test(trimmed))
+  );
+}
+
+/**
+ * 将路径转换为补丁中使用的、相对于仓库根目录的正斜杠路径。
+ */
+function toPatchPath(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+/**
+ * 生成单个文件的 git 风格差异段。
+ */
+function formatFileDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  before: string | null,
+  after: string | null
+): string {
+  const aPath = oldPath ?? newPath!;
+  const bPath = newPath ?? oldPath!;
+  const header = [`diff --git a/${aPath} b/${bPath}`];
+  if (before === null) {
+    header.push('new file mode 100644');
+  } else if (after === null) {
+    header.push('deleted file mode 100644');
+  } else if (aPath !== bPath) {
+    header.push(`rename from ${aPath}`, `rename to ${bPath}`);
+  }
+
+  const { hunks } = structuredPatch(
+    aPath,
+    bPath,
+    before ?? '',
+    after ?? '',
+    '',
+    '',
+    { context: 3 }
+  );
+  if (hunks.length === 0) {
+    return header.join('\n');
+  }
+
+  return [
+    ...header,
+    before === null ? '--- /dev/null' : `--- a/${aPath}`,
+    after === null ? '+++ /dev/null' : `+++ b/${bPath}`,
+    ...hunks.flatMap((hunk) => {
+      // 与 jsdiff 的 formatPatch 一致：行数为 0 时起始行号指向前一行
+      const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+      const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+      // jsdiff 在一侧为空时会错误地标记另一侧缺少末尾换行
+      const lines = hunk.lines.filter(
+        (line, i) =>
+          !line.startsWith('\\') ||
+          (hunk.lines[i - 1][0] === '-'
+            ? !before?.endsWith('\n')
+            : !after?.endsWith('\n'))
+      );
+      return [
+        `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`,
+        ...lines
+      ];
+    })
+  ].join('\n');
+}
+
+/**
+ * 将计划转换为基于当前磁盘状态的 git 风格补丁，可直接用于 `git apply`。
+ * 每个文件只输出一次净变化；move 操作输出为重命名。
+ * @param operations - 文件操作列表。
+ * @returns 补丁文本；计划不产生任何变化时返回空字符串。
+ * @throws {Error} 如果计划无法在当前状态下执行。
+ */
+export async function createPlanPatch(
+  operations: FileOperation[]
+): Promise<string> {
+  const root = await findGitRoot();
+  const workspace = new VirtualWorkspace();
+
+  // 记录每个涉及路径的初始内容
+  const originals = new Map<string, string | null>();
+  for (const op of operations) {
+    for (const filePath of getTouchedPaths(op)) {
+      if (!originals.has(filePath)) {
+        originals.set(filePath, await workspace.read(filePath));
+      }
+    }
+  }
+
+  for (let i = 0; i < operations.length; i++) {
+    const op = operations[i];
+    try {
+      const { after } = await workspace.preview(op);
+      workspace.commit(op, after);
+    } catch (error) {
+      throw new Error(
+        `操作 ${i + 1} (${op.type} ${getTouchedPaths(op).join(' -> ')}) 无法执行: ${(error as Error).message}`
+      );
+    }
+  }
+
+  const sections: string[] = [];
+  const handled = new Set<string>();
+
+  // 原路径被删除、新路径被创建的 move 操作输出为重命名
+  for (const op of operations) {
+    if (op.type !== 'move' || handled.has(op.oldPath)) continue;
+    const before = originals.get(op.oldPath)!;
+    const after = await workspace.read(op.newPath);
+    if (
+      before === null ||
+      after === null ||
+      originals.get(op.newPath) !== null ||
+      (await workspace.read(op.oldPath)) !== null
+    ) {
+      continue;
+    }
+    sections.push(
+      formatFileDiff(
+        toPatchPath(root, op.oldPath),
+        toPatchPath(root, op.newPath),
+        before,
+        after
+      )
+    );
+    handled.add(op.oldPath);
+    handled.add(op.newPath);
+  }
+
+  for (const [filePath, before] of originals) {
+    if (handled.has(filePath)) continue;
+    const after = await workspace.read(filePath);
+    if (before === after) continue;
+    const patchPath = toPatchPath(root, filePath);
+    sections.push(
+      formatFileDiff(
+        before === null ? null : patchPath,
+        after === null ? null : patchPath,
+        before,
+        after
+      )
+    );
+  }
+
+  return sections.length > 0 ? `${sections.join('\n')}\n` : '';
+}
+
+/**
+ * 补丁中单个文件的差异段。null 路径表示文件不存在（新建或删除）。
+ */
+interface PatchSection {
+  oldPath: string | null;
+  newPath: string | null;
+  /** 从 ---/+++ 或第一个变更块开始的文本，供 jsdiff 解析。 */
+  body: string;
+}
+
+/**
+ * 去掉补丁路径中的 a/、b/ 前缀及时间戳等附加信息。
+ */
+function cleanPatchPath(rawPath: string, prefix: string): string | null {
+  const filePath = rawPath
+    .split('\t')[0]
+    .trim()
+    .replace(/^"(.*)"$/, '$1');
+  if (filePath === '/dev/null') return null;
+  return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath;
+}
+
+/**
+ * 解析单个文件差异段的路径和 git 扩展头（new/deleted file mode、rename）。
+ */
+function parsePatchSection(lines: string[]): PatchSection {
+  const section: PatchSection = { oldPath: null, newPath: null, body: '' };
+  const gitHeader = /^diff --git a\/(.+?) b\/(.+)$/.exec(lines[0]);
+  if (gitHeader) {
+    section.oldPath = gitHeader[1];
+    section.newPath = gitHeader[2];
+  }
+
+  const bodyStart = lines.findIndex(
+    (line) => line.startsWith('--- ') || line.startsWith('@@')
+  );
+  const headerLines = bodyStart === -1 ? lines : lines.slice(0, bodyStart);
+  for (const line of headerLines) {
+    if (line.startsWith('new file mode')) {
+      section.oldPath = null;
+    } else if (line.startsWith('deleted file mode')) {
+      section.newPath = null;
+    } else if (line.startsWith('rename from ')) {
+      section.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      section.newPath = line.slice('rename to '.length);
+    }
+  }
+
+  if (bodyStart !== -1) {
+    const body = lines.slice(bodyStart);
+    if (body[0].startsWith('--- ') && body[1]?.startsWith('+++ ')) {
+      section.oldPath = cleanPatchPath(body[0].slice(4), 'a/');
+      section.newPath = cleanPatchPath(body[1].slice(4), 'b/');
+    }
+    section.body = body.join('\n');
+  }
+  return section;
+}
+
+/**
+ * 将补丁文本拆分为文件差异段。
+ * git 补丁以 "diff --git" 分段；普通统一差异以紧邻的 "--- "/"+++ " 行分段。
+ */
+function splitPatchSections(patchText: string): PatchSection[] {
+  const lines = patchText.replace(/\r\n/g, '\n').split('\n');
+  const chunks: string[][] = [];
+  let chunk: string[] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const isGitHeader = line.startsWith('diff --git ');
+    const isFileHeader =
+      line.startsWith('--- ') && !!lines[i + 1]?.startsWith('+++ ');
+    const inGitSection = !!chunk?.[0].startsWith('diff --git ');
+    if (isGitHeader || (isFileHeader && !inGitSection)) {
+      chunk = [];
+      chunks.push(chunk);
+    }
+    chunk?.push(line); // 忽略补丁前的说明文字
+  }
+  return chunks.map(parsePatchSection);
+}
+
+/**
+ * 将统一差异或 git 风格补丁转换为基于当前磁盘状态的文件操作。
+ * 修改的文件转换为覆写整个文件的替换操作，重命名转换为 move 操作。
+ * @param patchText - 补丁文本。
+ * @returns 文件操作列表。
+ * @throws {Error} 如果补丁无法应用到当前文件。
+ */
+export async function parsePatchToOperations(
+  patchText: string
+): Promise<FileOperation[]> {
+  const root = await findGitRoot();
+  const workspace = new VirtualWorkspace();
+  const operations: FileOperation[] = [];
+  const comment = '来自补丁';
+
+  for (const section of splitPatchSections(patchText)) {
+    const oldPath = section.oldPath && path.resolve(root, section.oldPath);
+    const newPath = section.newPath && path.resolve(root, section.newPath);
+    const [parsed] = section.body ? parsePatch(section.body) : [];
+    const hunks = parsed?.hunks ?? [];
+    const target = section.newPath ?? section.oldPath;
+
+    const apply = (source: string): string => {
+      if (hunks.length === 0) return source;
+      const result = applyPatch(source, { ...parsed, hunks });
+      if (result === false) {
+        throw new Error(`补丁无法应用到 ${target}：内容与当前文件不一致`);
+      }
+      return result;
+    };
+
+    if (!oldPath && newPath) {
+      const content = apply('');
+      operations.push({ type: 'create', filePath: newPath, content, comment });
+      workspace.commit(operations[operations.length - 1], content);
+    } else if (oldPath && !newPath) {
+      if ((await workspace.read(oldPath)) === null) {
+        throw new Error(`补丁删除的文件不存在: ${section.oldPath}`);
+      }
+      operations.push({ type: 'delete', filePath: oldPath, comment });
+      workspace.commit(operations[operations.length - 1], null);
+    } else if (oldPath && newPath) {
+      const before = await workspace.read(oldPath);
+      if (before === null) {
+        throw new Error(`补丁修改的文件不存在: ${section.oldPath}`);
+      }
+      const after = apply(before);
+      if (oldPath !== newPath) {
+        const moveOp: FileOperation = {
+          type: 'move',
+          oldPath,
+          newPath,
+          comment
+        };
+        operations.push(moveOp);
+        workspace.commit(moveOp, before);
+      }
+      if (after !== before) {
+        const replaceOp: FileOperation = {
+          type: 'writeWithReplace',
+          filePath: newPath,
+          content: after,
+          comment
+        };
+        operations.push(replaceOp);
+        workspace.commit(replaceOp, after);
+      }
+    }
+  }
+  return operations;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+
+import { VirtualWorkspace } from './plan-preview';
+
+describe('VirtualWorkspace', () => {
+  it('shifts later edits by the lines actually committed', async () => {
+    const workspace = new VirtualWorkspace(
+      new Map([['a.txt', 'one\ntwo\nthree\nfour\n']])
+    );
+    const first = {
+      type: 'edit' as const,
+      filePath: 'a.txt',
+      startLine: 1,
+      endLine: 2,
+      content: 'one\nextra\nextra'
+    };
+    // 只接受了第一处插入：实际写入的内容比 op.content 少一行
+    workspace.commit(first, 'one\nextra\ntwo\nthree\nfour\n');
+
+    const { after } = await workspace.preview({
+      type: 'edit',
+      filePath: 'a.txt',
+      startLine: 3,
+      endLine: 4,
+      content: 'THREE'
+    });
+    expect(after).toBe('one\nextra\ntwo\nTHREE\nfour\n');
+  });
+});
@@ -0,0 +1,290 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+
+import { CliStyle } from '../utils/cli-style';
+import { getFuzzyMatchEnabled } from '../utils/config-manager';
+import {
+  applyReplaceHunks,
+  countLines,
+  LineOffsetTracker,
+  replaceLinesInContent
+} from '../utils/file-utils';
+import { FileOperation, toReplaceHunks } from './operation-schema';
+
+/**
+ * 单个操作在模拟执行前后的文件内容。null 表示文件不存在。
+ */
+export interface OperationPreview {
+  operation: FileOperation;
+  /** 操作后的文件路径（move 操作为新路径）。 */
+  filePath: string;
+  /** move 操作的原路径。 */
+  oldPath?: string;
+  before: string | null;
+  after: string | null;
+  /** 模拟执行失败时的错误信息。 */
+  error?: string;
+}
+
+/**
+ * 内存中的虚拟工作区，用于在不修改磁盘的情况下按顺序模拟执行操作。
+ * 文件在首次访问时从磁盘读取，edit 操作的行号偏移与实际执行一致。
+ */
+export class VirtualWorkspace {
+  private readonly files: Map<string, string | null>;
+  private readonly lineTracker = new LineOffsetTracker();
+
+  /**
+   * @param initialFiles - 可选的初始文件内容，提供的路径不会再从磁盘读取（null 表示文件不存在）。
+   */
+  constructor(initialFiles?: Map<string, string | null>) {
+    this.files = new Map(initialFiles);
+  }
+
+  /**
+   * 读取文件的当前内容。
+   * @param filePath - 文件路径。
+   * @returns 文件内容；文件不存在时返回 null。
+   */
+  async read(filePath: string): Promise<string | null> {
+    if (!this.files.has(filePath)) {
+      try {
+        this.files.set(filePath, await fs.readFile(filePath, 'utf-8'));
+      } catch {
+        this.files.set(filePath, null);
+      }
+    }
+    return this.files.get(filePath)!;
+  }
+
+  /**
+   * 计算操作在当前状态下的执行前后内容，不修改工作区。
+   * @param op - 文件操作。
+   * @returns 执行前后的内容（move 操作为原文件内容）。
+   * @throws {Error} 如果操作无法在当前状态下执行。
+   */
+  async preview(
+    op: FileOperation
+  ): Promise<{ before: string | null; after: string | null }> {
+    switch (op.type) {
+      case 'create':
+        return { before: await this.read(op.filePath), after: op.content };
+
+      case 'writeWithReplace': {
+        const before = await this.readExisting(op.filePath);
+        const after = applyReplaceHunks(before, toReplaceHunks(op), {
+          fuzzy: await getFuzzyMatchEnabled()
+        });
+        return { before, after };
+      }
+
+      case 'edit': {
+        const before = await this.readExisting(op.filePath);
+        const range = this.lineTracker.map(
+          op.filePath,
+          op.startLine,
+          op.endLine
+        );
+        return {
+          before,
+          after: replaceLinesInContent(
+            before,
+            op.content,
+            range.startLine,
+            range.endLine
+          )
+        };
+      }
+
+      case 'move': {
+        const before = await this.readExisting(op.oldPath);
+        return { before, after: before };
+      }
+
+      case 'delete':
+        return { before: await this.readExisting(op.filePath), after: null };
+    }
+  }
+
+  /**
+   * 将操作的结果写入工作区。
+   * @param op - 已执行的文件操作。
+   * @param after - 操作后的文件内容（可与操作本身的结果不同，例如部分接受时）。
+   */
+  commit(op: FileOperation, after: string | null): void {
+    switch (op.type) {
+      case 'move':
+        this.files.set(op.oldPath, null);
+        this.files.set(op.newPath, after);
+        break;
+      case 'edit': {
+        // 按实际写入的内容计算行数变化，部分接受时与 op.content 不同
+        const previous = this.files.get(op.filePath) ?? '';
+        this.lineTracker.recordDelta(
+          op.filePath,
+          op.endLine,
+          countLines(after ?? '') - countLines(previous)
+        );
+        this.files.set(op.filePath, after);
+        break;
+      }
+      default:
+        this.files.set(op.filePath, after);
+        break;
+    }
+  }
+
+  private async readExisting(filePath: string): Promise<string> {
+    const content = await this.read(filePath);
+    if (content === null) {
+      throw new Error(`文件不存在: ${filePath}`);
+    }
+    return content;
+  }
+}
+
+/**
+ * 在内存中按顺序模拟执行计划，不修改磁盘上的任何文件。
+ * 后续操作基于之前操作的结果，edit 操作的行号偏移与实际执行一致。
+ * @param operations - 要模拟的文件操作列表。
+ * @param initialFiles - 可选的初始文件内容，未提供的路径从磁盘读取。
+ * @returns 每个操作的执行前后内容。
+ */
+export async function simulatePlan(
+  operations: FileOperation[],
+  initialFiles?: Map<string, string | null>
+): Promise<OperationPreview[]> {
+  const workspace = new VirtualWorkspace(initialFiles);
+  const previews: OperationPreview[] = [];
+  for (const op of operations) {
+    const preview: OperationPreview = {
+      operation: op,
+      ...getPreviewPaths(op),
+      before: null,
+      after: null
+    };
+    try {
+      const { before, after } = await workspace.preview(op);
+      preview.before = before;
+      preview.after = after;
+      workspace.commit(op, after);
+    } catch (error) {
+      preview.error = error instanceof Error ? error.message : String(error);
+    }
+    previews.push(preview);
+  }
+  return previews;
+}
+
+/**
+ * 获取操作在预览中显示的路径。
+ * @param op - 文件操作。
+ * @returns 目标路径，move 操作同时返回原路径。
+ */
+export function getPreviewPaths(op: FileOperation): {
+  filePath: string;
+  oldPath?: string;
+} {
+  return op.type === 'move'
+    ? { filePath: op.newPath, oldPath: op.oldPath }
+    : { filePath: op.filePath };
+}
+
+/**
+ * 生成统一差异格式文本。
+ * @param oldName - 原文件名，文件不存在时使用 /dev/null。
+ * @param newName - 新文件名，文件被删除时使用 /dev/null。
+ * @param before - 原内容。
+ * @param after - 新内容。
+ * @param colorize - 是否为终端输出添加颜色。
+ * @returns 差异文本；内容相同时返回空字符串。
+ */
+export function formatUnifiedDiff(
+  oldName: string,
+  newName: string,
+  before: string,
+  after: string,
+  colorize: boolean = true
+): string {
+  if (before === after) return '';
+
+  const patch = createTwoFilesPatch(oldName, newName, before, after);
+  const lines = patch.split('\n').slice(1); // 去掉 "=====" 分隔行
+  return (colorize ? lines.map(colorizeDiffLine) : lines).join('\n').trimEnd();
+}
+
+/**
+ * 为统一差异格式中的单行设置样式。
+ * @param line - 差异行。
+ * @returns 带样式的差异行。
+ */
+export function colorizeDiffLine(line: string): string {
+  if (
+    line.startsWith('---') ||
+    line.startsWith('+++') ||
+    line.startsWith('@@')
+  ) {
+    return CliStyle.diffHeader(line);
+  }
+  if (line.startsWith('+')) return CliStyle.diffAdded(line);
+  if (line.startsWith('-')) return CliStyle.diffRemoved(line);
+  if (line.startsWith('\\')) return CliStyle.muted(line);
+  return line;
+}
+
+/**
+ * 获取用于显示的相对路径。
+ * @param filePath - 文件路径。
+ * @returns 相对于当前工作目录的路径。
+ */
+export function toDisplayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath) || filePath;
+}
+
+/**
+ * 在终端中以统一差异格式显示计划中每个操作的更改。
+ * @param operations - 要显示的文件操作列表。
+ * @param initialFiles - 可选的初始文件内容（例如历史记录中的执行前内容），未提供的路径从磁盘读取。
+ */
+export async function showPlanDiff(
+  operations: FileOperation[],
+  initialFiles?: Map<string, string | null>
+): Promise<void> {
+  console.log(CliStyle.process('\n--- 计划差异预览 ---'));
+  const previews = await simulatePlan(operations, initialFiles);
+  const relative = toDisplayPath;
+
+  previews.forEach((preview, index) => {
+    const { operation } = preview;
+    const target = preview.oldPath
+      ? `${relative(preview.oldPath)} -> ${relative(preview.filePath)}`
+      : relative(preview.filePath);
+    console.log(
+      `\n${CliStyle.operationType(operation.type)} ${CliStyle.filePath(target)} ${CliStyle.muted(`(${index + 1}/${previews.length})`)}`
+    );
+    if (operation.comment) {
+      console.log(`   ${CliStyle.comment(operation.comment)}`);
+    }
+
+    if (preview.error) {
+      console.log(CliStyle.error(`无法预览: ${preview.error}`));
+      return;
+    }
+
+    const oldName =
+      preview.before === null
+        ? '/dev/null'
+        : `a/${relative(preview.oldPath || preview.filePath)}`;
+    const newName =
+      preview.after === null ? '/dev/null' : `b/${relative(preview.filePath)}`;
+    const diffText = formatUnifiedDiff(
+      oldName,
+      newName,
+      preview.before ?? '',
+      preview.after ?? ''
+    );
+    console.log(diffText || CliStyle.muted('(内容无变化)'));
+  });
+  console.log(CliStyle.process('\n--- 差异预览结束 ---\n'));
+}
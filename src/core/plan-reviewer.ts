@@ -4,17 +4,108 @@ import inquirer from 'inquirer';
 import ora from 'ora';
 
 import { CliStyle } from '../utils/cli-style';
-import { openInEditor, showDiffInVsCode } from '../utils/editor-utils';
-import { executePlan } from './plan-executor';
-import { replaceInFile } from '../utils/file-utils';
-import { FileOperation } from './operation-schema';
+import { getFuzzyMatchEnabled } from '../utils/config-manager';
+import {
+  getCommandName,
+  isCommandAvailable,
+  resolveDiffCommand,
+  showDiffInEditor
+} from '../utils/editor-utils';
+import { executePlan, PlanSnapshot } from './plan-executor';
+import { showPlanDiff } from './plan-preview';
+import { createPlanPatch } from './plan-patch';
+import { RejectedHunk, reviewHunks } from './hunk-reviewer';
+import {
+  applyReplaceHunks,
+  formatSimilarity,
+  locateReplaceHunks,
+  replaceLinesInContent
+} from '../utils/file-utils';
+import { FindMatchOptions, MATCH_TIER_LABELS } from '../utils/find-matcher';
+import { FileOperation, toReplaceHunks } from './operation-schema';
 import { OperationValidator } from './operation-validator';
 
+/**
+ * 计划修复回调：接收当前操作及验证错误，返回AI修复后的操作；无法继续修复时返回 null。
+ */
+export type PlanRepairHandler = (
+  operations: FileOperation[],
+  errors: string[]
+) => Promise<FileOperation[] | null>;
+
+/**
+ * 审查计划的附加选项。
+ */
+export interface ReviewOptions {
+  /** 计划不可达时用于请求AI修复的回调。 */
+  repair?: PlanRepairHandler;
+}
+
+/**
+ * 描述替换操作中非精确匹配的替换块所使用的匹配层级。
+ * @param op - 替换操作。
+ * @param options - find 的查找选项。
+ * @returns 描述文本；全部精确匹配或无法定位时返回空字符串。
+ */
+async function describeMatchTiers(
+  op: Extract<FileOperation, { type: 'writeWithReplace' }>,
+  options: FindMatchOptions
+): Promise<string> {
+  const hunks = toReplaceHunks(op);
+  if (!hunks.some((hunk) => hunk.find)) return '';
+
+  let content: string;
+  try {
+    content = await fs.readFile(op.filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+
+  const descriptions: string[] = [];
+  hunks.forEach((hunk, index) => {
+    if (!hunk.find) return;
+    const { matches } = locateReplaceHunks(content, [hunk], options);
+    if (matches.length !== 1 || matches[0].tier === 'exact') return;
+    const { tier, similarity } = matches[0];
+    const label = hunks.length > 1 ? `替换块 ${index + 1}: ` : '';
+    const detail = tier === 'fuzzy' ? ` ${formatSimilarity(similarity)}` : '';
+    descriptions.push(`${label}${MATCH_TIER_LABELS[tier]}${detail}`);
+  });
+  return descriptions.join('; ');
+}
+
+/**
+ * 格式化文件操作的摘要行：操作类型及涉及的路径。
+ * @param op - 文件操作。
+ * @returns 摘要行文本。
+ */
+export function formatOperationLine(op: FileOperation): string {
+  const typeStyled = CliStyle.operationType(op.type);
+  switch (op.type) {
+    case 'create':
+    case 'writeWithReplace':
+    case 'delete':
+      return `${typeStyled}: ${CliStyle.filePath(op.filePath)}`;
+    case 'edit':
+      return `${typeStyled}: ${CliStyle.filePath(op.filePath)} ${CliStyle.muted(
+        `(行 ${op.startLine}-${op.endLine})`
+      )}`;
+    case 'move':
+      return `${typeStyled}: ${CliStyle.filePath(op.oldPath)} -> ${CliStyle.filePath(op.newPath)}`;
+    default:
+      return `${CliStyle.warning('未知')}: ${JSON.stringify(op)}`;
+  }
+}
+
 /**
  * 向控制台显示提议的文件操作摘要。
  * @param operations - 要显示的文件操作列表。
+ * @param options - find 的查找选项，默认按配置决定是否启用模糊匹配。
  */
-export async function displayPlan(operations: FileOperation[]): Promise<void> {
+export async function displayPlan(
+  operations: FileOperation[],
+  options?: FindMatchOptions
+): Promise<void> {
   console.log(CliStyle.warning('\n--- 提议的文件计划 ---'));
   if (operations.length === 0) {
     console.log(CliStyle.muted('未提议文件操作。'));
@@ -33,9 +124,13 @@ export async function displayPlan(operations: FileOperation[]): Promise<void> {
   }
 
   // 验证操作的可达性
+  const matchOptions = options ?? { fuzzy: await getFuzzyMatchEnabled() };
   console.log(CliStyle.info('正在验证操作可达性...'));
   const reachabilityValidation =
-    await OperationValidator.validateOperationsReachability(operations);
+    await OperationValidator.validateOperationsReachability(
+      operations,
+      matchOptions
+    );
   if (!reachabilityValidation.isValid) {
     console.log(CliStyle.warning('警告: 发现不可达操作，但将继续显示计划。'));
     reachabilityValidation.errors?.forEach((error) => {
@@ -45,39 +140,23 @@ export async function displayPlan(operations: FileOperation[]): Promise<void> {
     console.log(CliStyle.success('✓ 所有操作可达'));
   }
 
-  operations.forEach((op) => {
-    const typeStyled = CliStyle.operationType(op.type);
-    let line = `${typeStyled}: `;
-    let commentAndThought = '';
-
-    if (op.comment) {
-      commentAndThought += CliStyle.comment(op.comment);
-    }
-    switch (op.type) {
-      case 'create':
-      case 'writeWithReplace':
-        line += CliStyle.filePath(op.filePath);
-        break;
-      case 'delete':
-        line += CliStyle.filePath(op.filePath);
-        break;
-      case 'move':
-        line += `${CliStyle.filePath(op.oldPath)} -> ${CliStyle.filePath(op.newPath)}`;
-        break;
-      default:
-        line = `${CliStyle.warning('未知')}: ${JSON.stringify(op)}`;
-        break;
+  for (const op of operations) {
+    let line = formatOperationLine(op);
+    if (op.type === 'writeWithReplace') {
+      const matchInfo = await describeMatchTiers(op, matchOptions);
+      if (matchInfo) {
+        line += ` ${CliStyle.warning(`(${matchInfo})`)}`;
+      }
     }
-
     console.log(
-      `${line}${commentAndThought ? `\n   ${commentAndThought}` : ''}`
+      `${line}${op.comment ? `\n   ${CliStyle.comment(op.comment)}` : ''}`
     );
-  });
+  }
   console.log(CliStyle.warning('--------------------------\n'));
 }
 
 /**
- * 使用差异查看器（VS Code）详细审查创建和编辑操作，并允许用户在审查时修改内容。
+ * 使用配置的差异工具详细审查创建和编辑操作，并允许用户在审查时修改内容。
  * @param operations - 要审查的文件操作列表。
  * @returns 修改后的操作数组。
  */
@@ -110,7 +189,7 @@ async function reviewChangesInDetail(
       let fullNewContent = op.content;
 
       try {
-        const editedContent = await showDiffInVsCode(
+        const editedContent = await showDiffInEditor(
           originalContentForDiff,
           fullNewContent,
           op.filePath
@@ -159,7 +238,7 @@ async function reviewChangesInDetail(
         );
         reviewedOperations.push(op); // 发生错误时保留原始操作
       }
-    } else if (op.type === 'writeWithReplace') {
+    } else if (op.type === 'writeWithReplace' || op.type === 'edit') {
       console.log(
         CliStyle.info(`\n正在显示替换内容: ${CliStyle.filePath(op.filePath)}`)
       );
@@ -167,23 +246,32 @@ async function reviewChangesInDetail(
       try {
         // 读取文件的当前内容
         const originalContent = await fs.readFile(op.filePath, 'utf-8');
-        const fullNewContent = replaceInFile(
-          originalContent,
-          op.content,
-          op.find
-        );
+        const fullNewContent =
+          op.type === 'edit'
+            ? replaceLinesInContent(
+                originalContent,
+                op.content,
+                op.startLine,
+                op.endLine
+              )
+            : applyReplaceHunks(originalContent, toReplaceHunks(op), {
+                fuzzy: await getFuzzyMatchEnabled()
+              });
 
-        const editedContent = await showDiffInVsCode(
+        const editedContent = await showDiffInEditor(
           originalContent,
           fullNewContent,
           op.filePath
         );
 
         if (editedContent !== null) {
-          // 用户修改并保存了内容
-          const updatedOp = { ...op, content: editedContent } as FileOperation;
-          // 移除 find，因为编辑后可能不再是替换操作
-          delete (updatedOp as any).find;
+          // 用户修改并保存了内容，转换为覆写整个文件的替换操作
+          const updatedOp: FileOperation = {
+            type: 'writeWithReplace',
+            filePath: op.filePath,
+            content: editedContent,
+            ...(op.comment ? { comment: op.comment } : {})
+          };
 
           // 验证修改后的操作
           const updatedValidation =
@@ -253,26 +341,77 @@ async function exportPlanToJson(operations: FileOperation[]): Promise<void> {
   }
 }
 
+/**
+ * 将计划导出为基于当前磁盘状态的 git 风格补丁文件，可用 `git apply` 或 `mai exec-plan` 应用。
+ * @param operations - 当前文件操作列表。
+ */
+async function exportPlanToPatch(operations: FileOperation[]): Promise<void> {
+  try {
+    const patch = await createPlanPatch(operations);
+    if (!patch) {
+      console.log(CliStyle.warning('计划不会产生任何更改，未导出补丁。'));
+      return;
+    }
+
+    const { fileName } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'fileName',
+        message: '请输入导出文件名 (默认: plan.patch):',
+        default: 'plan.patch'
+      }
+    ]);
+
+    const fullPath = path.resolve(fileName);
+    await fs.writeFile(fullPath, patch, 'utf-8');
+
+    console.log(
+      CliStyle.success(`补丁已导出到 ${CliStyle.filePath(fullPath)}`)
+    );
+    console.log(
+      CliStyle.muted('可使用 git apply 或 mai exec-plan 应用该补丁。')
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(CliStyle.error(`\n导出补丁时出错: ${errorMessage}`));
+  }
+}
+
 /**
  * 启动交互式审查循环，处理提议的文件操作。
  * @param operations - 初始文件操作列表。
  * @param promptMessage - 初始提示消息。
  * @param userPrompt - 原始用户请求，用于检查点描述。
+ * @param autoApply - 是否跳过交互审查直接执行。
+ * @param options - 附加选项，如计划修复回调。
+ * @returns 计划是否被应用、审查后的操作列表、逐块审查中被拒绝的更改、执行前的快照，以及 Git 集成模式下的提交 SHA。
  */
 export async function reviewAndExecutePlan(
   operations: FileOperation[],
   promptMessage: string = '',
   userPrompt?: string,
-  autoApply?: boolean
-): Promise<{ applied: boolean }> {
+  autoApply?: boolean,
+  options: ReviewOptions = {}
+): Promise<{
+  applied: boolean;
+  /** 审查后的操作列表；计划被应用时即实际执行的操作。 */
+  operations: FileOperation[];
+  rejectedHunks: RejectedHunk[];
+  /** 计划被应用时，执行前涉及路径的快照。 */
+  snapshot?: PlanSnapshot;
+  gitCommit?: string;
+}> {
   if (operations.length === 0) {
-    return { applied: false };
+    return { applied: false, operations, rejectedHunks: [] };
   }
 
   let currentOperations = [...operations]; // 创建副本
   let inReviewLoop = true;
   let currentPromptMessage: string = promptMessage;
   let applied = false;
+  let gitCommit: string | undefined;
+  let snapshot: PlanSnapshot | undefined;
+  const rejectedHunks: RejectedHunk[] = [];
 
   // 初始验证
   const initialValidation =
@@ -288,7 +427,12 @@ export async function reviewAndExecutePlan(
 
   if (autoApply) {
     console.log(CliStyle.info('自动应用模式：跳过交互审查，直接执行计划。'));
-    await displayPlan(currentOperations);
+    // 无人审查时只接受可确定定位的匹配，模糊匹配必须经过交互确认
+    const matchOptions: FindMatchOptions = { fuzzy: false };
+    if (await getFuzzyMatchEnabled()) {
+      console.log(CliStyle.muted('自动应用模式下不使用模糊匹配。'));
+    }
+    await displayPlan(currentOperations, matchOptions);
 
     // 应用前最终验证
     const finalValidation =
@@ -300,12 +444,31 @@ export async function reviewAndExecutePlan(
       );
     }
 
-    // 验证操作可达性
+    // 验证操作可达性，不可达时请求AI修复
     console.log(CliStyle.info('正在验证操作可达性...'));
-    const reachabilityValidation =
+    let reachabilityValidation =
       await OperationValidator.validateOperationsReachability(
-        currentOperations
+        currentOperations,
+        matchOptions
+      );
+    while (!reachabilityValidation.isValid && options.repair) {
+      console.log(CliStyle.warning('计划包含不可达操作，尝试自动修复:'));
+      reachabilityValidation.errors?.forEach((error) => {
+        console.log(CliStyle.warning(`  ${error}`));
+      });
+      const repaired = await options.repair(
+        currentOperations,
+        reachabilityValidation.errors || []
       );
+      if (!repaired) break;
+      currentOperations = repaired;
+      await displayPlan(currentOperations, matchOptions);
+      reachabilityValidation =
+        await OperationValidator.validateOperationsReachability(
+          currentOperations,
+          matchOptions
+        );
+    }
     if (!reachabilityValidation.isValid) {
       console.log(CliStyle.error('计划包含不可达操作，无法自动应用。'));
       reachabilityValidation.errors?.forEach((error) => {
@@ -318,7 +481,11 @@ export async function reviewAndExecutePlan(
     console.log(CliStyle.success('✓ 所有操作可达'));
 
     try {
-      await executePlan(currentOperations, userPrompt || 'AI plan execution');
+      ({ gitCommit, snapshot } = await executePlan(
+        currentOperations,
+        userPrompt || 'AI plan execution',
+        matchOptions
+      ));
       applied = true;
     } catch (error) {
       console.error(
@@ -328,9 +495,19 @@ export async function reviewAndExecutePlan(
     }
 
     console.log(CliStyle.success('计划已成功自动应用。'));
-    return { applied };
+    return {
+      applied,
+      operations: currentOperations,
+      rejectedHunks,
+      ...(snapshot ? { snapshot } : {}),
+      ...(gitCommit ? { gitCommit } : {})
+    };
   }
 
+  // 差异工具不可用时（如 SSH 或容器中没有 VS Code）默认使用终端差异预览
+  const diffTool = getCommandName(await resolveDiffCommand());
+  const hasDiffTool = await isCommandAvailable(diffTool);
+
   while (inReviewLoop) {
     if (currentPromptMessage) {
       console.log(CliStyle.info(currentPromptMessage));
@@ -342,10 +519,14 @@ export async function reviewAndExecutePlan(
         type: 'list',
         name: 'choice',
         message: '选择一个操作:',
+        default: hasDiffTool ? 'apply' : 'diff',
         choices: [
           { name: '应用计划', value: 'apply' },
-          { name: '审查更改（VS Code diff）', value: 'review' },
+          { name: '审查更改（终端 diff）', value: 'diff' },
+          { name: '逐块审查（接受/拒绝/编辑）', value: 'hunks' },
+          { name: `审查更改（${diffTool} diff）`, value: 'review' },
           { name: '导出计划 (JSON)', value: 'export' },
+          { name: '导出计划 (patch)', value: 'exportPatch' },
           { name: '取消', value: 'cancel' }
         ]
       }
@@ -388,26 +569,59 @@ export async function reviewAndExecutePlan(
               reachabilityValidation.errors?.forEach((error) => {
                 console.log(CliStyle.error(`  ${error}`));
               });
-              const { forceApply } = await inquirer.prompt([
-                {
-                  type: 'confirm',
-                  name: 'forceApply',
-                  message: '是否强制应用可能不可达的计划？',
-                  default: false
-                }
-              ]);
 
-              if (!forceApply) {
-                break;
+              if (options.repair) {
+                const { action } = await inquirer.prompt([
+                  {
+                    type: 'list',
+                    name: 'action',
+                    message: '如何处理不可达的计划？',
+                    choices: [
+                      { name: '请求 AI 修复计划', value: 'repair' },
+                      { name: '强制应用', value: 'force' },
+                      { name: '返回审查', value: 'back' }
+                    ]
+                  }
+                ]);
+
+                if (action === 'repair') {
+                  const repaired = await options.repair(
+                    currentOperations,
+                    reachabilityValidation.errors || []
+                  );
+                  if (repaired) {
+                    currentOperations = repaired;
+                    currentPromptMessage = 'AI 已修复计划。审查新计划:';
+                  } else {
+                    currentPromptMessage = '未能修复计划。继续审查:';
+                  }
+                  break;
+                }
+                if (action !== 'force') {
+                  break;
+                }
+              } else {
+                const { forceApply } = await inquirer.prompt([
+                  {
+                    type: 'confirm',
+                    name: 'forceApply',
+                    message: '是否强制应用可能不可达的计划？',
+                    default: false
+                  }
+                ]);
+
+                if (!forceApply) {
+                  break;
+                }
               }
             } else {
               console.log(CliStyle.success('✓ 所有操作可达'));
             }
 
-            await executePlan(
+            ({ gitCommit, snapshot } = await executePlan(
               currentOperations,
               userPrompt || 'AI plan execution'
-            );
+            ));
             applied = true;
             inReviewLoop = false;
           } catch (error) {
@@ -434,11 +648,41 @@ export async function reviewAndExecutePlan(
         }
         break;
 
+      case 'diff':
+        if (currentOperations.length === 0) {
+          console.log(CliStyle.warning('没有可预览的文件操作。'));
+        } else {
+          await showPlanDiff(currentOperations);
+          currentPromptMessage = '差异已显示。继续审查:';
+        }
+        break;
+
+      case 'hunks':
+        if (currentOperations.length === 0) {
+          console.log(CliStyle.warning('没有可审查的文件操作。'));
+        } else {
+          const result = await reviewHunks(currentOperations);
+          currentOperations = result.operations;
+          rejectedHunks.push(...result.rejectedHunks);
+          if (currentOperations.length === 0) {
+            console.log(CliStyle.success('所有更改已在审查中拒绝。'));
+            inReviewLoop = false;
+          } else {
+            currentPromptMessage = '计划已根据逐块审查更新。审查新计划:';
+          }
+        }
+        break;
+
       case 'export':
         await exportPlanToJson(currentOperations);
         currentPromptMessage = '计划已导出。继续审查:';
         break;
 
+      case 'exportPatch':
+        await exportPlanToPatch(currentOperations);
+        currentPromptMessage = '补丁已导出。继续审查:';
+        break;
+
       case 'cancel':
         console.log(CliStyle.error('操作已取消。'));
         inReviewLoop = false;
@@ -457,5 +701,11 @@ export async function reviewAndExecutePlan(
     console.log(CliStyle.info('计划未应用。'));
   }
 
-  return { applied };
+  return {
+    applied,
+    operations: currentOperations,
+    rejectedHunks,
+    ...(snapshot ? { snapshot } : {}),
+    ...(gitCommit ? { gitCommit } : {})
+  };
 }
@@ -12,8 +12,17 @@ import { listConfig, resetConfig, directSetConfig } from './commands/config';
 import {
   clearHistory,
   deleteHistory,
+  getThreadIds,
+  HistorySearchFilter,
   listHistory,
+  nameHistory,
+  pruneHistory,
   redoHistory,
+  searchHistory,
+  showHistory,
+  showHistoryStats,
+  showHistoryTree,
+  tagHistory,
   undoHistory
 } from './commands/history';
 import {
@@ -25,9 +34,45 @@ import {
   deleteTemplate
 } from './commands/template';
 import { startDelimiter } from './core/operation-definitions';
+import { looksLikePatch } from './core/plan-patch';
+import { startChatSession } from './commands/chat';
 
 const program = new Command();
 
+/**
+ * 解析命令行中的日期选项，无效时退出。
+ * @param value - 日期字符串（如 2025-01-31）。
+ * @param endOfDay - 仅日期时是否取当天的最后时刻，用于范围的结束时间。
+ * @returns 解析后的日期。
+ */
+function parseDateOption(value: string, endOfDay: boolean): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(CliStyle.error(`无效的日期: ${value}`));
+    process.exit(1);
+  }
+  // 仅日期时包含当天的全部时间
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setTime(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+  return date;
+}
+
+/**
+ * 解析命令行中的上下文 token 上限，无效时忽略。
+ * @param value - 上限字符串。
+ * @returns 解析后的上限；未指定或无效时返回 undefined。
+ */
+function parseMaxContextOption(value?: string): number | undefined {
+  if (!value) return undefined;
+  const maxContext = parseInt(value, 10);
+  if (isNaN(maxContext) || maxContext <= 0) {
+    console.log(CliStyle.warning(`无效的上下文上限: ${value}，忽略。`));
+    return undefined;
+  }
+  return maxContext;
+}
+
 /**
  * 定义主命令 'mai'。
  */
@@ -61,6 +106,10 @@ program
     '-t, --temperature <number>',
     '指定AI模型的temperature参数，控制输出的随机性 (0-2)。'
   )
+  .option(
+    '--max-context <tokens>',
+    '发送上下文的 token 上限，覆盖配置中模型的上限。'
+  )
   .action(
     async (
       promptArg: string,
@@ -69,10 +118,11 @@ program
         chat?: boolean;
         autoContext?: boolean;
         autoApply?: boolean;
-        history?: string;
+        refHistory?: string;
         historyDepth?: string;
         model?: string;
         temperature?: string;
+        maxContext?: string;
       }
     ) => {
       let actualPrompt: string;
@@ -90,8 +140,8 @@ program
         // 解析 historyIds 和 historyDepth
         let historyIds: string[] | undefined;
         let historyDepth: number | undefined;
-        if (options.history) {
-          historyIds = options.history
+        if (options.refHistory) {
+          historyIds = options.refHistory
             .split(',')
             .map((s) => s.trim())
             .filter((s) => s.length > 0);
@@ -113,6 +163,7 @@ program
         const autoContext = options.autoContext || false;
         const autoApply = options.autoApply || false;
         const model = options.model;
+        const maxContext = parseMaxContextOption(options.maxContext);
 
         // 解析temperature选项
         let temperature: number | undefined;
@@ -139,7 +190,8 @@ program
             autoContext,
             autoApply,
             model,
-            temperature
+            temperature,
+            maxContext
           );
         } else {
           await processRequest(
@@ -151,7 +203,8 @@ program
             autoContext,
             autoApply,
             model,
-            temperature
+            temperature,
+            maxContext
           );
         }
       } catch (error) {
@@ -173,7 +226,7 @@ program
 program
   .command('exec-plan <planSource>')
   .description(
-    '从文件路径或直接字符串执行给定计划。支持 JSON 和定界（delimited）两种格式。'
+    '从文件路径或直接字符串执行给定计划。支持 JSON、定界（delimited）格式以及统一差异 / git 补丁（.patch）。'
   )
   .action(async (planSource: string, options, command: Command) => {
     const allOptions = command.optsWithGlobals();
@@ -185,7 +238,8 @@ program
     const isDirectStringContent =
       trimmedSource.startsWith(startDelimiter()) ||
       trimmedSource.startsWith('[') ||
-      trimmedSource.startsWith('{');
+      trimmedSource.startsWith('{') ||
+      looksLikePatch(trimmedSource);
 
     if (isDirectStringContent) {
       planContent = planSource;
@@ -199,7 +253,7 @@ program
         // 如果它不是直接字符串内容，并且也不是一个可读文件，那么这是一个错误。
         console.error(
           CliStyle.error(
-            `\n错误: 无法将 '${planSource}' 作为文件读取，且它不符合直接 JSON 或定界字符串格式。`
+            `\n错误: 无法将 '${planSource}' 作为文件读取，且它不符合直接 JSON、定界字符串或补丁格式。`
           )
         );
         process.exit(1);
@@ -229,20 +283,261 @@ program
     }
   });
 
+/**
+ * 定义 'chat' 命令，用于交互式多轮对话。
+ */
+program
+  .command('chat')
+  .description(
+    '启动交互式多轮对话会话。可使用 /add、/remove 管理上下文文件，/help 查看更多命令。'
+  )
+  .argument(
+    '[files...]',
+    '初始上下文文件。支持glob如 "src/**"。支持指定行数范围如 "src/file.ts:10-20"。'
+  )
+  .action(async (files: string[], options, command: Command) => {
+    const allOptions = command.optsWithGlobals();
+
+    let temperature: number | undefined;
+    if (allOptions.temperature) {
+      const tempNum = parseFloat(allOptions.temperature);
+      if (!isNaN(tempNum) && tempNum >= 0 && tempNum <= 2) {
+        temperature = tempNum;
+      } else {
+        console.log(
+          CliStyle.warning(
+            `无效的temperature值: ${allOptions.temperature}，必须在0-2之间，忽略。`
+          )
+        );
+      }
+    }
+
+    try {
+      await startChatSession(files, {
+        model: allOptions.model,
+        temperature,
+        autoApply: allOptions.autoApply || false,
+        systemPrompt: allOptions.chat ? '' : undefined,
+        maxContext: parseMaxContextOption(allOptions.maxContext)
+      });
+    } catch (error) {
+      console.error(
+        CliStyle.error(
+          `\n对话会话异常结束: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * 定义 'continue' 命令，从任意历史记录继续对话。
+ */
+program
+  .command('continue')
+  .description(
+    '从指定的历史记录继续对话：以该记录及其上下文记录重建对话，并发送新的提示。'
+  )
+  .argument('<id>', '要继续的历史记录 ID、名称或索引（如 ~1）。')
+  .argument('<prompt>', '提示词。')
+  .argument(
+    '[files...]',
+    '作为上下文的文件。支持glob如 "src/**"。支持指定行数范围如 "src/file.ts:10-20"。'
+  )
+  .action(
+    async (
+      idOrName: string,
+      promptArg: string,
+      files: string[],
+      options,
+      command: Command
+    ) => {
+      const allOptions = command.optsWithGlobals();
+
+      let temperature: number | undefined;
+      if (allOptions.temperature) {
+        const tempNum = parseFloat(allOptions.temperature);
+        if (!isNaN(tempNum) && tempNum >= 0 && tempNum <= 2) {
+          temperature = tempNum;
+        } else {
+          console.log(
+            CliStyle.warning(
+              `无效的temperature值: ${allOptions.temperature}，必须在0-2之间，忽略。`
+            )
+          );
+        }
+      }
+
+      try {
+        const threadIds = await getThreadIds(idOrName);
+        // processRequest 按从新到旧的顺序接收历史记录
+        await processRequest(
+          promptArg,
+          files,
+          threadIds.reverse(),
+          undefined,
+          allOptions.chat ? '' : undefined,
+          false,
+          allOptions.autoApply || false,
+          allOptions.model,
+          temperature,
+          parseMaxContextOption(allOptions.maxContext)
+        );
+      } catch (error) {
+        console.error(
+          CliStyle.error(
+            `\n发生严重错误: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+        process.exit(1);
+      }
+    }
+  );
+
 /**
  * 定义 'history' 命令，用于版本管理。
  */
 program
   .command('history')
-  .description('管理和使用历史记录。(~/.mai/history.json)')
+  .description('管理和使用历史记录。(按项目存放在 ~/.mai/history/)')
   .addCommand(
     new Command('list')
-      .description('列出所有可用历史记录。')
+      .description('列出当前项目的历史记录。')
       .option('-f, --file-only', '只显示包含文件操作的历史记录。')
+      .option('-a, --all', '按项目列出所有项目的历史记录。')
       .action(async (options) => {
-        await listHistory(options.fileOnly);
+        await listHistory(options.fileOnly, options.all);
+      })
+  )
+  .addCommand(
+    new Command('search')
+      .description(
+        '按提示文本、涉及的文件、时间范围、模型、应用状态和标签搜索历史记录。'
+      )
+      .argument('[query]', '在提示、名称和描述中查找的文本（不区分大小写）')
+      .option('--file <path>', '涉及的文件路径包含该文本。')
+      .option('--since <date>', '不早于该时间（如 2025-01-31）。')
+      .option('--until <date>', '不晚于该时间，仅日期时包含当天。')
+      .option('--model <model>', '模型名称包含该文本。')
+      .option('--applied', '只显示已应用的记录。')
+      .option('--no-applied', '只显示未应用或没有文件操作的记录。')
+      .option('--tag <tags...>', '包含全部指定的标签。')
+      .option('-a, --all', '搜索所有项目的历史记录。')
+      .action(
+        async (
+          query: string | undefined,
+          options: {
+            file?: string;
+            since?: string;
+            until?: string;
+            model?: string;
+            applied?: boolean;
+            tag?: string[];
+            all?: boolean;
+          },
+          command: Command
+        ) => {
+          const filter: HistorySearchFilter = {
+            query,
+            file: options.file,
+            since: options.since
+              ? parseDateOption(options.since, false)
+              : undefined,
+            until: options.until
+              ? parseDateOption(options.until, true)
+              : undefined,
+            // --model 与主命令的 -m, --model 同名，由主命令解析
+            model: command.optsWithGlobals().model,
+            applied: options.applied,
+            tags: options.tag
+          };
+          await searchHistory(filter, options.all);
+        }
+      )
+  )
+  .addCommand(
+    new Command('stats')
+      .description(
+        '按模型、日期和项目汇总所有项目的 AI 请求次数、token 用量、耗时和估算费用。'
+      )
+      .option('--since <date>', '不早于该时间（如 2025-01-31）。')
+      .option('--until <date>', '不晚于该时间，仅日期时包含当天。')
+      .action(async (options: { since?: string; until?: string }) => {
+        await showHistoryStats({
+          since: options.since
+            ? parseDateOption(options.since, false)
+            : undefined,
+          until: options.until
+            ? parseDateOption(options.until, true)
+            : undefined
+        });
       })
   )
+  .addCommand(
+    new Command('name')
+      .description('为历史记录设置名称，之后可通过名称引用（如 -r <名称>）。')
+      .addArgument(
+        new Argument('id|name|~n', '历史记录的ID、名称或索引（如 ~1）')
+      )
+      .addArgument(new Argument('[name]', '新名称，省略时清除名称'))
+      .action(async (idOrName: string, name?: string) => {
+        await nameHistory(idOrName, name);
+      })
+  )
+  .addCommand(
+    new Command('tag')
+      .description('为历史记录添加或移除标签。')
+      .addArgument(
+        new Argument('id|name|~n', '历史记录的ID、名称或索引（如 ~1）')
+      )
+      .addArgument(new Argument('<tags...>', '标签'))
+      .option('--remove', '移除指定的标签。')
+      .action(
+        async (
+          idOrName: string,
+          tags: string[],
+          options: { remove?: boolean }
+        ) => {
+          await tagHistory(idOrName, tags, options.remove);
+        }
+      )
+  )
+  .addCommand(
+    new Command('tree')
+      .description(
+        '以树的形式显示历史记录之间的对话关系（每条记录基于哪些记录继续）。'
+      )
+      .argument('[id|name|~n]', '只显示该记录所在的对话树。')
+      .action(async (idOrName?: string) => {
+        await showHistoryTree(idOrName);
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description(
+        '显示历史记录的详细信息：完整提示、上下文文件、模型、AI 响应及每个文件操作的差异。'
+      )
+      .addArgument(
+        new Argument(
+          '[id|name|~n]',
+          '历史记录的ID、名称或索引（如 ~1）'
+        ).default('~1', '最近一次历史')
+      )
+      .option('--raw', '只输出原始 AI 响应，可保存后通过 exec-plan 重新执行。')
+      .option('--json', '以 JSON 格式输出完整的历史记录。')
+      .action(
+        async (
+          idOrName: string,
+          options: { raw?: boolean; json?: boolean }
+        ) => {
+          await showHistory(idOrName, options);
+        }
+      )
+  )
   .addCommand(
     new Command('undo')
       .description('撤销指定的历史记录所做的更改，而不删除该历史记录。')
@@ -252,8 +547,9 @@ program
           '历史记录的ID、名称或索引（如 ~1）'
         ).default('~1', '最近一次历史')
       )
-      .action(async (idOrName: string) => {
-        await undoHistory(idOrName);
+      .option('-f, --force', '跳过内容变化检查，直接撤销。')
+      .action(async (idOrName: string, options: { force?: boolean }) => {
+        await undoHistory(idOrName, options.force);
       })
   )
   .addCommand(
@@ -265,8 +561,9 @@ program
           '历史记录的ID、名称或索引（如 ~1）'
         ).default('~1', '最近一次历史')
       )
-      .action(async (idOrName: string) => {
-        await redoHistory(idOrName);
+      .option('-f, --force', '跳过内容变化检查，直接重新应用。')
+      .action(async (idOrName: string, options: { force?: boolean }) => {
+        await redoHistory(idOrName, options.force);
       })
   )
   .addCommand(
@@ -283,6 +580,27 @@ program
     new Command('clear').description('清除所有历史记录。').action(async () => {
       await clearHistory();
     })
+  )
+  .addCommand(
+    new Command('prune')
+      .description(
+        '按保留策略清理所有项目的历史记录，并删除不再被引用的文件内容。'
+      )
+      .option('-k, --keep <number>', '每个项目保留的条数（0 表示不限制）。')
+      .option('--days <number>', '保留的天数（0 表示不限制）。')
+      .action(async (options: { keep?: string; days?: string }) => {
+        const parsed: { keep?: number; days?: number } = {};
+        for (const key of ['keep', 'days'] as const) {
+          if (options[key] === undefined) continue;
+          const value = parseInt(options[key]!, 10);
+          if (isNaN(value) || value < 0) {
+            console.error(CliStyle.error(`无效的数值: ${options[key]}`));
+            process.exit(1);
+          }
+          parsed[key] = value;
+        }
+        await pruneHistory(parsed);
+      })
   );
 /**
  * 定义 'template' 命令，用于管理和应用AI提示词模板。
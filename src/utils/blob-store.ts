@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+import { hashContent, writeFileAtomic } from './file-utils';
+
+/** 最近写入或复用的 blob 可能属于尚未写入索引的记录，清理时跳过。 */
+const GC_GRACE_MS = 60 * 60 * 1000;
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * 获取 blob 在存储目录中的路径，按哈希前两位分目录存放。
+ */
+function getBlobPath(dir: string, hash: string): string {
+  return path.join(dir, hash.slice(0, 2), hash);
+}
+
+/**
+ * 将内容写入内容寻址的 blob 存储。相同内容只存储一份。
+ * @param dir - blob 存储目录。
+ * @param content - 要存储的内容。
+ * @returns 内容的 SHA-256 哈希，用于之后读取。
+ */
+export async function putBlob(dir: string, content: string): Promise<string> {
+  const hash = hashContent(content);
+  const blobPath = getBlobPath(dir, hash);
+  try {
+    // 已存在相同内容：更新修改时间，避免被并发的清理当作无用内容删除
+    const now = new Date();
+    await fs.utimes(blobPath, now, now);
+    return hash;
+  } catch {
+    // 继续写入
+  }
+
+  await writeFileAtomic(blobPath, await gzipAsync(content));
+  return hash;
+}
+
+/**
+ * 从 blob 存储中读取内容。
+ * @param dir - blob 存储目录。
+ * @param hash - 内容哈希。
+ * @returns 存储的内容。
+ * @throws {Error} 如果 blob 不存在或已损坏。
+ */
+export async function readBlob(dir: string, hash: string): Promise<string> {
+  const data = await fs.readFile(getBlobPath(dir, hash));
+  return (await gunzipAsync(data)).toString('utf-8');
+}
+
+/**
+ * 删除存储中所有未被引用的 blob。最近一小时内写入或复用的 blob 会被保留。
+ * @param dir - blob 存储目录。
+ * @param referenced - 仍被引用的内容哈希。
+ * @returns 删除的 blob 数量和释放的字节数。
+ */
+export async function removeUnreferencedBlobs(
+  dir: string,
+  referenced: Set<string>
+): Promise<{ count: number; bytes: number }> {
+  const removed = { count: 0, bytes: 0 };
+  let prefixes: string[];
+  try {
+    prefixes = await fs.readdir(dir);
+  } catch {
+    return removed;
+  }
+
+  for (const prefix of prefixes) {
+    const prefixDir = path.join(dir, prefix);
+    let names: string[];
+    try {
+      names = await fs.readdir(prefixDir);
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      // 残留的临时文件同样清理
+      if (referenced.has(name)) continue;
+      const blobPath = path.join(prefixDir, name);
+      const stats = await fs.stat(blobPath).catch(() => null);
+      if (!stats || Date.now() - stats.mtimeMs < GC_GRACE_MS) continue;
+      await fs.unlink(blobPath);
+      removed.count++;
+      removed.bytes += stats.size;
+    }
+    await fs.rmdir(prefixDir).catch(() => {}); // 仅在目录为空时成功
+  }
+  return removed;
+}
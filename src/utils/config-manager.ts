@@ -3,6 +3,8 @@ import * as os from 'os';
 import * as path from 'path';
 
 import { CliStyle } from './cli-style';
+import { withFileLock } from './file-lock';
+import { writeFileAtomic } from './file-utils';
 import JSON5 from 'json5';
 import { MAI_CONFIG_DIR_NAME, CONFIG_FILE_NAME } from '../constants/mai-data';
 
@@ -18,20 +20,93 @@ export interface MaiConfig {
     maxRounds?: number;
     maxFiles?: number;
   };
+  editor?: {
+    command?: string; // 编辑器命令模板，{file} 为文件路径占位符
+    diffCommand?: string; // 差异工具命令模板，{original}/{modified} 为文件路径占位符
+  };
+  autoRepair?: {
+    maxRounds?: number; // 计划验证失败时请求AI修复的最大轮次，0 表示禁用
+  };
+  match?: {
+    fuzzy?: boolean; // 其他层级都找不到 find 时是否按相似度模糊匹配，默认 false；自动应用模式下始终不使用
+  };
+  git?: {
+    mode?: GitMode; // 执行计划时的 Git 集成方式，默认 off
+    dirtyTree?: GitDirtyTreePolicy; // 工作区有未提交更改时的处理方式，默认 refuse
+  };
+  history?: {
+    maxEntries?: number; // 每个项目保留的历史记录条数上限，0 表示不限制
+    maxAgeDays?: number; // 历史记录保留天数，0 表示不限制
+  };
+  retry?: {
+    maxRetries?: number; // 请求遇到限流、服务端错误或超时时的最大重试次数
+  };
+  fallbackModels?: string[]; // 主模型请求失败时依次尝试的备用模型
+  context?: {
+    strategy?: ContextStrategy; // 上下文超出上限时的处理方式，默认 refuse
+  };
   providers?: Partial<ProvidersConfig>; // 支持自定义providers
 }
 
+/**
+ * 执行计划时的 Git 集成方式。
+ * - off: 不与 Git 交互
+ * - commit: 在当前分支上将计划提交为一个 commit
+ * - branch: 先创建新分支，再将计划提交为一个 commit
+ */
+export type GitMode = 'off' | 'commit' | 'branch';
+
+/**
+ * Git 集成模式下工作区有未提交更改时的处理方式。
+ * - refuse: 拒绝执行计划
+ * - stash: 执行前暂存（git stash），提交后恢复
+ */
+export type GitDirtyTreePolicy = 'refuse' | 'stash';
+
+/**
+ * 发送前估算的上下文超出上限时的处理方式。
+ * - refuse: 拒绝发送
+ * - trim: 从最早的历史记录开始移除，仍超出时移除最大的文件
+ * - truncate: 从最早的历史记录开始移除，仍超出时截断最大的文件
+ */
+export type ContextStrategy = 'refuse' | 'trim' | 'truncate';
+
+/**
+ * 提供商使用的 SDK 类型。
+ * - openai / anthropic / google: 使用对应的官方 SDK，支持提供商特有的功能，url 可省略
+ * - openai-compatible: 通用的 OpenAI 兼容接口（默认）
+ * - ollama: 本地 Ollama 服务，url 默认为 http://localhost:11434/v1，无需 API Key
+ */
+export type ProviderType =
+  'openai' | 'anthropic' | 'google' | 'openai-compatible' | 'ollama';
+
+export const OLLAMA_DEFAULT_URL = 'http://localhost:11434/v1';
+
 export interface ProviderConfig {
-  url: string;
+  type?: ProviderType; // SDK 类型，默认 openai-compatible
+  url?: string; // API 地址，使用官方 SDK 或 ollama 时可省略
   models?: string[];
-  apiKeyEnv: string;
+  apiKeyEnv?: string; // 包含 API Key 的环境变量名
   apiKey?: string; // 直接提供 API Key，优先级最高
+  thinkingBudget?: number; // 思考过程的 token 预算（anthropic、google）
+  timeout?: number; // 请求超时（秒）：等待响应或两次数据之间的最长时间，默认 120
+  prices?: Record<string, ModelPrice>; // 各模型的价格，用于估算费用
+  contextLimits?: Record<string, number>; // 各模型每次请求可发送的上下文 token 上限
+}
+
+/**
+ * 模型的价格，单位为每百万 token 的费用。
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 export type ProvidersConfig = Record<string, ProviderConfig>;
 
 export const DEFAULT_PROVIDERS: ProvidersConfig = {
   openai: {
+    type: 'openai',
     url: 'https://api.openai.com/v1',
     models: ['gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo'],
     apiKeyEnv: 'OPENAI_API_KEY'
@@ -124,7 +199,7 @@ export async function saveConfig(config: MaiConfig): Promise<void> {
     console.log(CliStyle.info(`保存配置到: ${configPath}`)); // 添加日志
     await fs.mkdir(configDir, { recursive: true });
     const content = JSON.stringify(config, null, 2);
-    await fs.writeFile(configPath, content, 'utf-8');
+    await writeFileAtomic(configPath, content);
     console.log(CliStyle.success(`配置保存成功: ${configPath}`)); // 添加成功日志
     configCache = config; // 更新缓存
   } catch (error) {
@@ -146,10 +221,40 @@ export async function saveConfig(config: MaiConfig): Promise<void> {
 }
 
 /**
- * 从环境变量或默认值获取 API 端点。
- * @returns API 端点字符串。
+ * 在文件锁的保护下读取、修改并保存配置，避免并发的 mai 进程互相覆盖。
+ * 总是从磁盘重新读取配置；配置文件存在但无法解析时拒绝写入，以免用默认配置覆盖。
+ * @param mutate - 修改函数，直接修改传入的配置。
+ * @throws {Error} 如果配置文件无法解析或保存失败。
+ */
+export async function updateConfig(
+  mutate: (config: MaiConfig) => void
+): Promise<void> {
+  const configPath = getConfigFile();
+  await withFileLock(configPath, async () => {
+    let config: MaiConfig = {};
+    try {
+      config = JSON5.parse(await fs.readFile(configPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `无法解析配置文件 '${configPath}'，为避免覆盖已取消保存，请先修复该文件: ${(error as Error).message}`
+        );
+      }
+    }
+    mutate(config);
+    await saveConfig(config);
+  });
+}
+
+/**
+ * 获取模型所属提供商的配置。
+ * @param model - 模型字符串，默认为当前模型。
+ * @returns 提供商名称、模型名称和提供商配置。
+ * @throws {Error} 如果模型格式无效或提供商未配置。
  */
-export async function getApiEndpoint(model?: string): Promise<string> {
+export async function getProviderConfig(
+  model?: string
+): Promise<{ provider: string; modelName: string; config: ProviderConfig }> {
   const currentModel = model || (await getCurrentModel());
   const parsed = await parseModel(currentModel);
   if (!parsed) {
@@ -166,51 +271,44 @@ export async function getApiEndpoint(model?: string): Promise<string> {
       ? (customProviders as ProvidersConfig)
       : DEFAULT_PROVIDERS;
 
-  const def = mergedProviders[parsed.provider];
-  if (!def) {
+  const pconfig = mergedProviders[parsed.provider];
+  if (!pconfig) {
     throw new Error(`Unknown provider: ${parsed.provider}`);
   }
-  const pconfig = customProviders[parsed.provider] || def;
-  return pconfig.url;
+  return { ...parsed, config: pconfig };
+}
+
+/**
+ * 从提供商配置获取 API 端点。
+ * @returns API 端点字符串；未配置时返回 undefined，使用 SDK 的默认地址。
+ */
+export async function getApiEndpoint(
+  model?: string
+): Promise<string | undefined> {
+  const { config } = await getProviderConfig(model);
+  if (config.url) return config.url;
+  return config.type === 'ollama' ? OLLAMA_DEFAULT_URL : undefined;
 }
 
 /**
  * 从环境变量或默认值获取 API 密钥。
  * 支持多个密钥的负载均衡，如果提供了逗号分隔的多个密钥，则随机选择一个。
+ * ollama 提供商未配置密钥时返回空字符串。
  * @returns API 密钥字符串。
  */
 export async function getApiKey(model?: string): Promise<string> {
-  const currentModel = model || (await getCurrentModel());
-  const parsed = await parseModel(currentModel);
-  if (!parsed) {
-    throw new Error(
-      `Invalid model format: ${currentModel}. Expected 'provider/modelname'.`
-    );
-  }
-  const config = await loadConfig();
-  const customProviders = config.providers || {};
-
-  // 如果用户在配置中提供了 providers，则仅使用用户提供的；否则使用默认提供者
-  const mergedProviders =
-    customProviders && Object.keys(customProviders).length > 0
-      ? (customProviders as ProvidersConfig)
-      : DEFAULT_PROVIDERS;
-
-  const def = mergedProviders[parsed.provider];
-  if (!def) {
-    throw new Error(`Unknown provider: ${parsed.provider}`);
-  }
-  const pconfig = customProviders[parsed.provider] || def;
+  const { provider, config: pconfig } = await getProviderConfig(model);
 
   // 优先使用配置中直接提供的 apiKey（最高优先级）
-  if ((pconfig as any).apiKey) {
-    return (pconfig as any).apiKey;
+  if (pconfig.apiKey) {
+    return pconfig.apiKey;
   }
 
-  const key = process.env[pconfig.apiKeyEnv];
+  const key = pconfig.apiKeyEnv ? process.env[pconfig.apiKeyEnv] : undefined;
   if (!key) {
+    if (pconfig.type === 'ollama') return '';
     throw new Error(
-      `API key not found for provider '${parsed.provider}'. Set ${pconfig.apiKeyEnv}.`
+      `API key not found for provider '${provider}'. Set ${pconfig.apiKeyEnv || 'apiKey or apiKeyEnv in the config'}.`
     );
   }
 
@@ -301,9 +399,9 @@ export async function setModel(model: string): Promise<void> {
         .join(', ')}...`
     );
   }
-  const config = await loadConfig();
-  config.model = model;
-  await saveConfig(config); // 保存并使缓存失效
+  await updateConfig((config) => {
+    config.model = model;
+  });
 }
 
 /**
@@ -325,9 +423,9 @@ export async function getSystemPrompt(): Promise<string | undefined> {
  * @param prompt - 要设置的系统提示词。
  */
 export async function setSystemPrompt(prompt: string): Promise<void> {
-  const config = await loadConfig();
-  config.systemPrompt = prompt;
-  await saveConfig(config); // 保存并使缓存失效
+  await updateConfig((config) => {
+    config.systemPrompt = prompt;
+  });
 }
 
 /**
@@ -349,9 +447,9 @@ export async function getHistoryDepth(): Promise<number> {
  * @param depth - 要设置的历史深度。
  */
 export async function setHistoryDepth(depth: number): Promise<void> {
-  const config = await loadConfig();
-  config.historyDepth = depth;
-  await saveConfig(config); // 保存并使缓存失效
+  await updateConfig((config) => {
+    config.historyDepth = depth;
+  });
 }
 
 /**
@@ -376,9 +474,9 @@ export async function setTemperature(temperature: number): Promise<void> {
   if (temperature < 0 || temperature > 2) {
     throw new Error('Temperature must be between 0 and 2');
   }
-  const config = await loadConfig();
-  config.temperature = temperature;
-  await saveConfig(config); // 保存并使缓存失效
+  await updateConfig((config) => {
+    config.temperature = temperature;
+  });
 }
 
 /**
@@ -430,6 +528,73 @@ export async function getAvailableModels(): Promise<string[]> {
   }
   return allModels;
 }
+/**
+ * 获取所有提供商中配置的模型价格。
+ * @returns 完整模型名称（provider/model）到价格的映射。
+ */
+export async function getModelPrices(): Promise<Record<string, ModelPrice>> {
+  const config = await loadConfig();
+  const customProviders = config.providers || {};
+
+  // 如果用户在配置中提供了 providers，则仅使用用户提供的；否则使用默认提供者
+  const mergedProviders =
+    customProviders && Object.keys(customProviders).length > 0
+      ? (customProviders as ProvidersConfig)
+      : DEFAULT_PROVIDERS;
+
+  const prices: Record<string, ModelPrice> = {};
+  for (const [prov, pconfig] of Object.entries(mergedProviders)) {
+    for (const [m, price] of Object.entries(pconfig.prices || {})) {
+      prices[`${prov}/${m}`] = price;
+    }
+  }
+  return prices;
+}
+
+/**
+ * 获取模型每次请求可发送的上下文 token 上限。
+ * @param model - 完整模型名称（provider/model），默认为当前模型。
+ * @returns token 上限；未配置或模型无效时返回 undefined。
+ */
+export async function getContextLimit(
+  model?: string
+): Promise<number | undefined> {
+  try {
+    const { modelName, config } = await getProviderConfig(model);
+    return config.contextLimits?.[modelName];
+  } catch (error) {
+    // 忽略配置错误，视为未配置
+    return undefined;
+  }
+}
+
+/**
+ * 从配置中获取上下文超出上限时的处理方式。
+ * @returns 处理方式，默认为 refuse。
+ */
+export async function getContextStrategy(): Promise<ContextStrategy> {
+  try {
+    const config = await loadConfig();
+    return config.context?.strategy || 'refuse';
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return 'refuse';
+  }
+}
+
+/**
+ * 在配置中设置上下文超出上限时的处理方式。
+ * @param strategy - 处理方式。
+ */
+export async function setContextStrategy(
+  strategy: ContextStrategy
+): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.context) config.context = {};
+    config.context.strategy = strategy;
+  });
+}
+
 export async function getAutoContextConfig(): Promise<{
   maxRounds: number;
   maxFiles: number;
@@ -447,17 +612,252 @@ export async function getAutoContextConfig(): Promise<{
 }
 
 export async function setAutoContextMaxRounds(rounds: number): Promise<void> {
-  const config = await loadConfig();
-  if (!config.autoContext) config.autoContext = {};
-  config.autoContext.maxRounds = rounds;
-  await saveConfig(config);
+  await updateConfig((config) => {
+    if (!config.autoContext) config.autoContext = {};
+    config.autoContext.maxRounds = rounds;
+  });
 }
 
 export async function setAutoContextMaxFiles(files: number): Promise<void> {
-  const config = await loadConfig();
-  if (!config.autoContext) config.autoContext = {};
-  config.autoContext.maxFiles = files;
-  await saveConfig(config);
+  await updateConfig((config) => {
+    if (!config.autoContext) config.autoContext = {};
+    config.autoContext.maxFiles = files;
+  });
+}
+
+/**
+ * 从配置中获取自动修复的最大轮次，如果未设置则返回默认值 2。
+ * @returns 最大修复轮次。
+ */
+export async function getAutoRepairMaxRounds(): Promise<number> {
+  try {
+    const config = await loadConfig();
+    return config.autoRepair?.maxRounds ?? 2;
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return 2;
+  }
+}
+
+/**
+ * 在配置中设置自动修复的最大轮次。
+ * @param rounds - 最大修复轮次。
+ */
+export async function setAutoRepairMaxRounds(rounds: number): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.autoRepair) config.autoRepair = {};
+    config.autoRepair.maxRounds = rounds;
+  });
+}
+
+/**
+ * 从配置中获取是否启用 find 的模糊匹配。
+ * @returns 是否启用，默认为 false。
+ */
+export async function getFuzzyMatchEnabled(): Promise<boolean> {
+  try {
+    const config = await loadConfig();
+    return config.match?.fuzzy ?? false;
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return false;
+  }
+}
+
+/**
+ * 在配置中设置是否启用 find 的模糊匹配。
+ * @param enabled - 是否启用。
+ */
+export async function setFuzzyMatchEnabled(enabled: boolean): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.match) config.match = {};
+    config.match.fuzzy = enabled;
+  });
+}
+
+/**
+ * 从配置中获取请求的最大重试次数。
+ * @returns 最大重试次数，默认为 3。
+ */
+export async function getMaxRetries(): Promise<number> {
+  try {
+    const config = await loadConfig();
+    return config.retry?.maxRetries ?? 3;
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return 3;
+  }
+}
+
+/**
+ * 在配置中设置请求的最大重试次数。
+ * @param maxRetries - 最大重试次数，0 表示不重试。
+ */
+export async function setMaxRetries(maxRetries: number): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.retry) config.retry = {};
+    config.retry.maxRetries = maxRetries;
+  });
+}
+
+/**
+ * 从配置中获取备用模型列表。
+ * @returns 按尝试顺序排列的备用模型，未配置时为空数组。
+ */
+export async function getFallbackModels(): Promise<string[]> {
+  try {
+    const config = await loadConfig();
+    return config.fallbackModels ?? [];
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return [];
+  }
+}
+
+/**
+ * 在配置中设置备用模型列表。
+ * @param models - 逗号分隔的模型列表，为空时清除。
+ */
+export async function setFallbackModels(models: string): Promise<void> {
+  const fallbackModels = models
+    .split(',')
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0);
+  await updateConfig((config) => {
+    if (fallbackModels.length > 0) {
+      config.fallbackModels = fallbackModels;
+    } else {
+      delete config.fallbackModels;
+    }
+  });
+}
+
+/**
+ * 从配置中获取编辑器和差异工具的命令模板。
+ * @returns 编辑器配置，未设置的项为 undefined。
+ */
+export async function getEditorConfig(): Promise<{
+  command?: string;
+  diffCommand?: string;
+}> {
+  try {
+    const config = await loadConfig();
+    return {
+      command: config.editor?.command || undefined,
+      diffCommand: config.editor?.diffCommand || undefined
+    };
+  } catch (error) {
+    // 忽略配置错误，返回空配置
+    return {};
+  }
+}
+
+/**
+ * 在配置中设置编辑器命令模板，空字符串表示清除。
+ * @param command - 命令模板，例如 'nvim {file}'。
+ */
+export async function setEditorCommand(command: string): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.editor) config.editor = {};
+    config.editor.command = command.trim() || undefined;
+  });
+}
+
+/**
+ * 在配置中设置差异工具命令模板，空字符串表示清除。
+ * @param command - 命令模板，例如 'meld {original} {modified}'。
+ */
+export async function setDiffCommand(command: string): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.editor) config.editor = {};
+    config.editor.diffCommand = command.trim() || undefined;
+  });
+}
+
+/**
+ * 从配置中获取 Git 集成设置。
+ * @returns Git 集成方式和未提交更改的处理方式。
+ */
+export async function getGitConfig(): Promise<{
+  mode: GitMode;
+  dirtyTree: GitDirtyTreePolicy;
+}> {
+  try {
+    const config = await loadConfig();
+    return {
+      mode: config.git?.mode || 'off',
+      dirtyTree: config.git?.dirtyTree || 'refuse'
+    };
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return { mode: 'off', dirtyTree: 'refuse' };
+  }
+}
+
+/**
+ * 在配置中设置 Git 集成方式。
+ * @param mode - Git 集成方式。
+ */
+export async function setGitMode(mode: GitMode): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.git) config.git = {};
+    config.git.mode = mode;
+  });
+}
+
+/**
+ * 在配置中设置工作区有未提交更改时的处理方式。
+ * @param policy - 处理方式。
+ */
+export async function setGitDirtyTreePolicy(
+  policy: GitDirtyTreePolicy
+): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.git) config.git = {};
+    config.git.dirtyTree = policy;
+  });
+}
+
+/**
+ * 从配置中获取历史记录保留策略。
+ * @returns 每个项目保留的条数上限和保留天数，0 表示不限制。
+ */
+export async function getHistoryRetention(): Promise<{
+  maxEntries: number;
+  maxAgeDays: number;
+}> {
+  try {
+    const config = await loadConfig();
+    return {
+      maxEntries: config.history?.maxEntries ?? 500,
+      maxAgeDays: config.history?.maxAgeDays ?? 0
+    };
+  } catch (error) {
+    // 忽略配置错误，返回默认值
+    return { maxEntries: 500, maxAgeDays: 0 };
+  }
+}
+
+/**
+ * 在配置中设置每个项目保留的历史记录条数上限。
+ * @param maxEntries - 条数上限，0 表示不限制。
+ */
+export async function setHistoryMaxEntries(maxEntries: number): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.history) config.history = {};
+    config.history.maxEntries = maxEntries;
+  });
+}
+
+/**
+ * 在配置中设置历史记录保留天数。
+ * @param maxAgeDays - 保留天数，0 表示不限制。
+ */
+export async function setHistoryMaxAgeDays(maxAgeDays: number): Promise<void> {
+  await updateConfig((config) => {
+    if (!config.history) config.history = {};
+    config.history.maxAgeDays = maxAgeDays;
+  });
 }
 
 export async function getConfigurableOptions(): Promise<ConfigOption[]> {
@@ -490,6 +890,27 @@ export async function getConfigurableOptions(): Promise<ConfigOption[]> {
       getter: getHistoryDepth,
       setter: setHistoryDepth
     },
+    {
+      key: 'history.maxEntries',
+      name: '历史记录条数上限',
+      description:
+        '每个项目保留的历史记录条数，超出时移除最早的记录 (0 表示不限制)',
+      type: 'number',
+      min: 0,
+      max: 100000,
+      getter: async () => (await getHistoryRetention()).maxEntries,
+      setter: setHistoryMaxEntries
+    },
+    {
+      key: 'history.maxAgeDays',
+      name: '历史记录保留天数',
+      description: '超过该天数的历史记录会被移除 (0 表示不限制)',
+      type: 'number',
+      min: 0,
+      max: 36500,
+      getter: async () => (await getHistoryRetention()).maxAgeDays,
+      setter: setHistoryMaxAgeDays
+    },
     {
       key: 'temperature',
       name: 'Temperature',
@@ -519,6 +940,93 @@ export async function getConfigurableOptions(): Promise<ConfigOption[]> {
       max: 20,
       getter: async () => (await getAutoContextConfig()).maxFiles,
       setter: (files: number) => setAutoContextMaxFiles(files)
+    },
+    {
+      key: 'editor.command',
+      name: '编辑器命令',
+      description:
+        '编辑文件时使用的命令模板，{file} 为文件路径，例如 "nvim {file}"、"code --wait {file}" (留空则使用 $VISUAL/$EDITOR)',
+      type: 'text',
+      getter: async () => (await getEditorConfig()).command,
+      setter: setEditorCommand
+    },
+    {
+      key: 'editor.diffCommand',
+      name: '差异工具命令',
+      description:
+        '审查更改时使用的命令模板，{original}/{modified} 为文件路径，例如 "vim -d {original} {modified}"、"meld {original} {modified}"',
+      type: 'text',
+      getter: async () => (await getEditorConfig()).diffCommand,
+      setter: setDiffCommand
+    },
+    {
+      key: 'autoRepair.maxRounds',
+      name: '自动修复轮次上限',
+      description: '计划验证失败时请求 AI 修复的最大轮次 (0 表示禁用)',
+      type: 'number',
+      min: 0,
+      max: 5,
+      getter: getAutoRepairMaxRounds,
+      setter: (rounds: number) => setAutoRepairMaxRounds(rounds)
+    },
+    {
+      key: 'match.fuzzy',
+      name: '模糊匹配',
+      description:
+        'find 在精确、忽略空白和忽略缩进后仍找不到时，是否按相似度模糊匹配 (true/false，自动应用模式下始终不使用)',
+      type: 'boolean',
+      getter: getFuzzyMatchEnabled,
+      setter: setFuzzyMatchEnabled
+    },
+    {
+      key: 'retry.maxRetries',
+      name: '请求重试次数',
+      description:
+        '请求遇到限流 (429)、服务端错误 (5xx) 或超时时的最大重试次数',
+      type: 'number',
+      min: 0,
+      max: 10,
+      getter: getMaxRetries,
+      setter: (maxRetries: number) => setMaxRetries(maxRetries)
+    },
+    {
+      key: 'fallbackModels',
+      name: '备用模型',
+      description:
+        '主模型请求失败时依次尝试的模型，逗号分隔，例如 "openai/gpt-4o-mini,gemini/gemini-2.5-flash" (留空则不使用)',
+      type: 'text',
+      getter: async () => (await getFallbackModels()).join(','),
+      setter: setFallbackModels
+    },
+    {
+      key: 'context.strategy',
+      name: '上下文超限处理',
+      description:
+        '发送前估算的上下文超出模型上限时: refuse 拒绝发送，trim 移除最早的历史和最大的文件，truncate 移除最早的历史并截断最大的文件',
+      type: 'select',
+      options: ['refuse', 'trim', 'truncate'],
+      getter: getContextStrategy,
+      setter: setContextStrategy
+    },
+    {
+      key: 'git.mode',
+      name: 'Git 集成',
+      description:
+        '执行计划时的 Git 集成方式: off 不使用，commit 提交到当前分支，branch 在新分支上提交',
+      type: 'select',
+      options: ['off', 'commit', 'branch'],
+      getter: async () => (await getGitConfig()).mode,
+      setter: setGitMode
+    },
+    {
+      key: 'git.dirtyTree',
+      name: 'Git 未提交更改处理',
+      description:
+        'Git 集成模式下工作区有未提交更改时: refuse 拒绝执行，stash 执行前暂存并在提交后恢复',
+      type: 'select',
+      options: ['refuse', 'stash'],
+      getter: async () => (await getGitConfig()).dirtyTree,
+      setter: setGitDirtyTreePolicy
     }
     // 未来可在此添加更多选项，如 templates 等
   ];
@@ -1,28 +1,106 @@
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
+import { constants as fsConstants } from 'fs';
 import { spawn } from 'child_process';
 import { CliStyle } from './cli-style';
+import { getEditorConfig } from './config-manager';
+
+/** 未配置编辑器时使用的默认命令模板。 */
+const DEFAULT_EDITOR_COMMAND = 'code --wait {file}';
+/** 未配置差异工具时使用的默认命令模板。 */
+const DEFAULT_DIFF_COMMAND = 'code --diff --wait {original} {modified}';
+/** 支持 -d 差异模式的编辑器，可直接由 $VISUAL/$EDITOR 推导出差异命令。 */
+const VIM_LIKE_EDITORS = ['vi', 'vim', 'nvim', 'gvim', 'mvim'];
+
+/**
+ * 解析编辑器命令模板：配置 > $VISUAL > $EDITOR > VS Code。
+ * @returns 编辑器命令模板。
+ */
+export async function resolveEditorCommand(): Promise<string> {
+  const { command } = await getEditorConfig();
+  return (
+    command ||
+    process.env.VISUAL ||
+    process.env.EDITOR ||
+    DEFAULT_EDITOR_COMMAND
+  );
+}
+
+/**
+ * 解析差异工具命令模板：配置 > 由 $VISUAL/$EDITOR 推导（vim 系）> VS Code。
+ * @returns 差异工具命令模板。
+ */
+export async function resolveDiffCommand(): Promise<string> {
+  const { diffCommand } = await getEditorConfig();
+  if (diffCommand) {
+    return diffCommand;
+  }
+  const envEditor = process.env.VISUAL || process.env.EDITOR;
+  if (envEditor) {
+    const name = path.basename(getCommandName(envEditor));
+    if (VIM_LIKE_EDITORS.includes(name.replace(/\.exe$/i, ''))) {
+      return `${envEditor} -d {original} {modified}`;
+    }
+  }
+  return DEFAULT_DIFF_COMMAND;
+}
+
+/**
+ * 获取命令模板中的可执行文件名称（第一个参数）。
+ * @param template - 命令模板。
+ * @returns 可执行文件名称。
+ */
+export function getCommandName(template: string): string {
+  const match = template.trim().match(/^"([^"]+)"|^(\S+)/);
+  return match ? match[1] || match[2] : '';
+}
+
+/**
+ * 展开命令模板中的 {name} 占位符，路径会被加上引号。
+ * 如果模板中不含任何占位符，则按顺序将值追加到命令末尾。
+ * @param template - 命令模板。
+ * @param values - 占位符名称到值的映射。
+ * @returns 可直接在 shell 中执行的命令。
+ */
+export function expandCommandTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+  let hasPlaceholder = false;
+  const command = template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in values)) return match;
+    hasPlaceholder = true;
+    return quote(values[key]);
+  });
+  if (hasPlaceholder) {
+    return command;
+  }
+  return [template.trim(), ...Object.values(values).map(quote)].join(' ');
+}
+
+/**
+ * 在配置的编辑器中打开文件，并等待编辑器关闭。
+ * @param filePath - 要编辑的文件路径。
+ */
+export async function openFileInEditor(filePath: string): Promise<void> {
+  const template = await resolveEditorCommand();
+  await runProcess(expandCommandTemplate(template, { file: filePath }), []);
+}
 
 /**
- * 在用户的默认文本编辑器中打开内容（硬编码为VS Code）。
+ * 在配置的编辑器中打开内容。
  * 进程会等待编辑器关闭。
  * @param content - 要编辑的内容。
  * @returns 编辑器关闭后的内容。
  */
 export async function openInEditor(content: string): Promise<string> {
-  const editor = 'code'; // 硬编码为VS Code
-  const projectRoot = process.cwd();
   const tempFilePath = path.join(os.tmpdir(), `mai-edit-${Date.now()}.tmp`);
 
   try {
     await fs.writeFile(tempFilePath, content, 'utf8');
-    await runProcess(editor, [
-      '--folder-uri',
-      projectRoot,
-      '--wait',
-      tempFilePath
-    ]);
+    await openFileInEditor(tempFilePath);
     return await fs.readFile(tempFilePath, 'utf8');
   } finally {
     await fs.unlink(tempFilePath).catch(() => {
@@ -32,14 +110,14 @@ export async function openInEditor(content: string): Promise<string> {
 }
 
 /**
- * 在VS Code中显示两个内容之间的差异，并允许用户编辑新内容（支持部分编辑的完整上下文审查）。
- * 进程会等待VS Code差异窗口关闭。如果用户保存了对新内容的更改，则返回修改后的内容。
+ * 在配置的差异工具中显示两个内容之间的差异，并允许用户编辑新内容（支持部分编辑的完整上下文审查）。
+ * 进程会等待差异工具关闭。如果用户保存了对新内容的更改，则返回修改后的内容。
  * @param originalContent - 原始文件内容。
  * @param newContent - AI提议的新内容（对于部分编辑，应为应用更改后的完整内容）。
  * @param fileNameHint - 可选，用于临时文件名的提示，例如 "my-file.ts"。
  * @returns 用户编辑并保存后的新内容，如果没有保存更改则返回 `null`。
  */
-export async function showDiffInVsCode(
+export async function showDiffInEditor(
   originalContent: string,
   newContent: string,
   fileNameHint?: string
@@ -59,19 +137,18 @@ export async function showDiffInVsCode(
     `${baseName}-original-${timestamp}${extName}`
   );
   const newPath = path.join(tempDir, `${baseName}-new-${timestamp}${extName}`);
-  const editor = 'code'; // 硬编码为VS Code
-  const projectRoot = process.cwd();
+  const template = await resolveDiffCommand();
 
   try {
     await fs.writeFile(originalPath, originalContent, 'utf8');
     await fs.writeFile(newPath, newContent, 'utf8'); // 写入AI提议的内容到新文件
-    await runProcess(editor, [
-      //'--folder-uri', projectRoot,
-      '--diff',
-      '--wait',
-      originalPath,
-      newPath
-    ]);
+    await runProcess(
+      expandCommandTemplate(template, {
+        original: originalPath,
+        modified: newPath
+      }),
+      []
+    );
 
     // 读取用户可能已修改的newPath内容
     const editedContent = await fs.readFile(newPath, 'utf8');
@@ -86,7 +163,9 @@ export async function showDiffInVsCode(
     }
   } catch (error) {
     console.error(
-      CliStyle.error('打开VS Code差异时出错。`code`命令是否在您的PATH中？')
+      CliStyle.error(
+        `打开差异工具时出错。\`${getCommandName(template)}\`命令是否在您的PATH中？可通过 mai config set editor.diffCommand 配置。`
+      )
     );
     console.error(CliStyle.error(String(error)));
     return null; // 发生错误时返回null
@@ -103,6 +182,34 @@ export async function showDiffInVsCode(
   }
 }
 
+/**
+ * 检查命令是否存在于 PATH 中（或为可执行文件路径）。
+ * @param command - 命令名称，例如 'code'。
+ * @returns 如果命令可用则返回 true。
+ */
+export async function isCommandAvailable(command: string): Promise<boolean> {
+  if (!command) return false;
+  const extensions =
+    process.platform === 'win32'
+      ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';')]
+      : [''];
+  // 包含路径分隔符时直接检查该路径
+  const dirs = command.includes(path.sep)
+    ? ['']
+    : (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      try {
+        await fs.access(path.join(dir, command + ext), fsConstants.X_OK);
+        return true;
+      } catch {
+        // 继续查找
+      }
+    }
+  }
+  return false;
+}
+
 /**
  * 运行外部进程并等待其退出。
  * @param command - 要执行的命令。
@@ -0,0 +1,99 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+/** 等待锁的最长时间。 */
+const LOCK_TIMEOUT_MS = 15000;
+
+/** 超过该时间未释放的锁视为残留，持有进程很可能已异常退出。 */
+const LOCK_STALE_MS = 60000;
+
+/**
+ * 锁文件中记录的持有者信息。
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  time: number;
+}
+
+/**
+ * 判断锁是否已失效：持有进程在本机且已退出，或锁的时间过长。
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  let owner: LockOwner;
+  try {
+    owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+  } catch {
+    // 锁文件正在写入或已被删除；写入只需瞬间，过旧时才视为残留
+    try {
+      const { mtimeMs } = await fs.stat(lockPath);
+      return Date.now() - mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  if (owner.hostname === os.hostname()) {
+    try {
+      process.kill(owner.pid, 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ESRCH') return true;
+    }
+  }
+  return Date.now() - owner.time > LOCK_STALE_MS;
+}
+
+/**
+ * 在文件的建议锁（<文件>.lock）保护下执行操作，用于多个 mai 进程并发修改同一文件。
+ * 锁通过独占创建锁文件实现；持有进程已退出或锁过旧时会被自动清除。
+ * 锁不可重入，持有锁时不能再次对同一文件加锁。
+ * @param filePath - 要保护的文件路径。
+ * @param action - 持有锁时执行的操作。
+ * @returns 操作的返回值。
+ * @throws {Error} 如果在超时时间内无法获得锁。
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  action: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    time: Date.now()
+  };
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = 10;
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(JSON.stringify(owner));
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (await isStaleLock(lockPath)) {
+      await fs.unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `等待文件锁超时: ${lockPath}。如果确认没有其他 mai 进程在运行，可删除该文件后重试。`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    delay = Math.min(delay * 2, 200);
+  }
+
+  try {
+    return await action();
+  } finally {
+    await fs.unlink(lockPath).catch(() => {});
+  }
+}
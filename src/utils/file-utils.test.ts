@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyReplaceHunks,
+  countLines,
+  LineOffsetTracker,
+  replaceLinesInContent
+} from './file-utils';
+
+describe('countLines', () => {
+  it('does not count the newline at the end of the file as a line', () => {
+    expect(countLines('')).toBe(0);
+    expect(countLines('a')).toBe(1);
+    expect(countLines('a\nb\n')).toBe(2);
+    expect(countLines('a\r\nb\r\n\r\n')).toBe(3);
+  });
+});
+
+describe('replaceLinesInContent', () => {
+  it('replaces the range and keeps the newline at the end of the file', () => {
+    expect(replaceLinesInContent('a\nb\nc\n', 'B\nB2', 2, 3)).toBe(
+      'a\nB\nB2\nc\n'
+    );
+    expect(replaceLinesInContent('a\nb\nc\n', 'x', 2, 4)).toBe('a\nx\n');
+  });
+
+  it('appends after the last line', () => {
+    expect(replaceLinesInContent('a\nb\n', 'c', 3, 3)).toBe('a\nb\nc\n');
+    expect(replaceLinesInContent('a\nb', 'c', 3, 3)).toBe('a\nb\nc');
+  });
+
+  it('keeps CRLF line endings', () => {
+    expect(replaceLinesInContent('a\r\nb\r\n', 'x', 1, 2)).toBe('x\r\nb\r\n');
+  });
+
+  it('deletes lines when the new content is empty', () => {
+    expect(replaceLinesInContent('a\nb\nc\n', '', 2, 3)).toBe('a\nc\n');
+    expect(replaceLinesInContent('a\n', '', 1, 2)).toBe('');
+  });
+
+  it('rejects ranges past the last line', () => {
+    expect(() => replaceLinesInContent('a\nb\n', 'x', 3, 4)).toThrow(
+      /超出文件范围 \(共 2 行\)/
+    );
+  });
+});
+
+describe('LineOffsetTracker', () => {
+  it('maps later ranges by the line delta of earlier edits', () => {
+    const tracker = new LineOffsetTracker();
+    tracker.record('a.txt', 2, 3, 'x\ny\nz');
+    expect(tracker.map('a.txt', 5, 6)).toEqual({ startLine: 7, endLine: 8 });
+
+    tracker.record('a.txt', 5, 8, '');
+    expect(tracker.map('a.txt', 10, 10)).toEqual({
+      startLine: 9,
+      endLine: 9
+    });
+  });
+
+  it('leaves ranges before an edit and other files untouched', () => {
+    const tracker = new LineOffsetTracker();
+    tracker.record('a.txt', 10, 12, 'x\ny\nz\nw');
+    expect(tracker.map('a.txt', 3, 5)).toEqual({ startLine: 3, endLine: 5 });
+    expect(tracker.map('b.txt', 20, 21)).toEqual({
+      startLine: 20,
+      endLine: 21
+    });
+  });
+
+  it('applies recorded deltas for content that differs from the edit', () => {
+    const tracker = new LineOffsetTracker();
+    tracker.recordDelta('a.txt', 3, -1);
+    expect(tracker.map('a.txt', 4, 5)).toEqual({ startLine: 3, endLine: 4 });
+  });
+});
+
+describe('applyReplaceHunks', () => {
+  const content = 'alpha\nbeta\ngamma\ndelta\n';
+
+  it('applies hunks listed out of file order against the original content', () => {
+    expect(
+      applyReplaceHunks(content, [
+        { find: 'delta', content: 'DELTA\nepsilon' },
+        { find: 'alpha', content: 'ALPHA' },
+        { find: 'gamma', content: '' }
+      ])
+    ).toBe('ALPHA\nbeta\n\nDELTA\nepsilon\n');
+  });
+
+  it('does not match text introduced by an earlier hunk', () => {
+    expect(
+      applyReplaceHunks(content, [
+        { find: 'alpha', content: 'beta-prime' },
+        { find: 'beta\n', content: 'BETA\n' }
+      ])
+    ).toBe('beta-prime\nBETA\ngamma\ndelta\n');
+  });
+
+  it('rejects overlapping hunks without changing anything', () => {
+    expect(() =>
+      applyReplaceHunks(content, [
+        { find: 'beta\ngamma', content: 'x' },
+        { find: 'gamma\ndelta', content: 'y' }
+      ])
+    ).toThrow('替换块 2 与替换块 1 的匹配范围重叠');
+  });
+
+  it('reports every invalid hunk by its position in the plan', () => {
+    expect(() =>
+      applyReplaceHunks(content, [
+        { find: 'alpha', content: 'A' },
+        { find: 'missing', content: 'B' },
+        { content: 'C' }
+      ])
+    ).toThrow(
+      /替换块 2: 未找到匹配项.*; 替换块 3: 多段替换中每个替换块都必须提供 find/
+    );
+  });
+});
@@ -1,7 +1,15 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { FileContextItem } from '../core/file-context';
 import { CliStyle } from './cli-style';
+import {
+  adaptReplacement,
+  findMatches,
+  FindMatchOptions,
+  MATCH_TIER_LABELS,
+  MatchTier
+} from './find-matcher';
 import picomatch = require('picomatch');
 
 export async function toAbsolutePath(relativePath: string): Promise<string> {
@@ -51,43 +59,149 @@ export async function isFileIgnored(relativePath: string): Promise<boolean> {
   }
 }
 
-export async function replaceLines(
-  filePath: string,
+/**
+ * 将内容拆分为行。结尾的换行符不产生额外的空行。
+ * @param content - 文本内容。
+ * @returns 各行内容，以及内容是否以换行符结尾。
+ */
+function splitContentLines(content: string): {
+  lines: string[];
+  trailingNewline: boolean;
+} {
+  if (content === '') return { lines: [], trailingNewline: false };
+  const lines = content.split(/\r?\n/);
+  const trailingNewline = lines[lines.length - 1] === '';
+  return {
+    lines: trailingNewline ? lines.slice(0, -1) : lines,
+    trailingNewline
+  };
+}
+
+/**
+ * 计算内容的行数，结尾的换行符不算作新的一行。
+ * @param content - 文本内容。
+ * @returns 行数。
+ */
+export function countLines(content: string): number {
+  return splitContentLines(content).lines.length;
+}
+
+/**
+ * 替换内容中指定行范围的文本，返回新的内容。
+ * 行号从 1 开始，替换范围为 [startLine, endLine)，不包含 endLine；两者相同时为插入。
+ * 原内容结尾的换行符会被保留。
+ * @param originalContent - 原始内容。
+ * @param newContent - 要写入的新内容，为空字符串时表示删除该范围。
+ * @param startLine - 起始行号。
+ * @param endLine - 结束行号（不包含）。
+ * @returns 替换后的内容。
+ * @throws {Error} 如果行号范围超出内容范围。
+ */
+export function replaceLinesInContent(
+  originalContent: string,
   newContent: string,
-  startLine?: number,
-  endLine?: number,
-  encoding: BufferEncoding = 'utf8'
-) {
-  try {
-    // 1. 读取文件内容
-    const data = await fs.readFile(filePath, encoding);
+  startLine: number,
+  endLine: number
+): string {
+  const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
+  const { lines, trailingNewline } = splitContentLines(originalContent);
 
-    // 2. 按行分割
-    let lines = data.split(/\r?\n/); // 使用正则表达式以支持不同操作系统的换行符
+  if (startLine < 1 || endLine < startLine || endLine > lines.length + 1) {
+    throw new Error(
+      `行号范围 ${startLine}-${endLine} 超出文件范围 (共 ${lines.length} 行)`
+    );
+  }
 
-    // 行号通常从1开始，而数组索引从0开始，因此需要调整
-    const startIndex = startLine ? startLine - 1 : 0;
-    const endIndex = endLine ? endLine - 1 : lines.length;
+  const before = lines.slice(0, startLine - 1);
+  const after = lines.slice(endLine - 1);
+  const newContentLines = newContent === '' ? [] : newContent.split(/\r?\n/);
 
-    // 3. 内容替换
-    // 获取开始行之前的内容
-    const before = lines.slice(0, startIndex);
-    // 获取结束行之后的内容
-    const after = lines.slice(endIndex);
+  const result = [...before, ...newContentLines, ...after].join(lineEnding);
+  return trailingNewline && result !== '' ? result + lineEnding : result;
+}
 
-    // 将新内容也按行分割
-    const newContentLines = newContent.split(/\r?\n/);
+/**
+ * 替换文件中指定行范围的内容并写回。
+ * @param filePath - 文件路径。
+ * @param newContent - 要写入的新内容。
+ * @param startLine - 起始行号（从 1 开始）。
+ * @param endLine - 结束行号（不包含）。
+ * @param encoding - 文件编码。
+ * @throws {Error} 如果读取、替换或写入失败。
+ */
+export async function replaceLines(
+  filePath: string,
+  newContent: string,
+  startLine: number,
+  endLine: number,
+  encoding: BufferEncoding = 'utf8'
+): Promise<void> {
+  const data = await fs.readFile(filePath, encoding);
+  const newFileContent = replaceLinesInContent(
+    data,
+    newContent,
+    startLine,
+    endLine
+  );
+  await fs.writeFile(filePath, newFileContent, encoding);
+}
 
-    // 组合新的文件内容
-    const newLines = [...before, ...newContentLines, ...after];
+/**
+ * 跟踪同一文件多次行范围编辑产生的行号偏移。
+ * 所有编辑的行号都基于文件初始状态，且互不重叠。
+ */
+export class LineOffsetTracker {
+  private readonly appliedEdits = new Map<
+    string,
+    Array<{ endLine: number; delta: number }>
+  >();
+
+  /**
+   * 将基于初始文件的行号范围映射为当前文件中的行号范围。
+   * @param filePath - 文件路径。
+   * @param startLine - 初始起始行号。
+   * @param endLine - 初始结束行号（不包含）。
+   * @returns 当前文件中的行号范围。
+   */
+  map(
+    filePath: string,
+    startLine: number,
+    endLine: number
+  ): { startLine: number; endLine: number } {
+    const offset = (this.appliedEdits.get(filePath) || [])
+      .filter((edit) => edit.endLine <= startLine)
+      .reduce((sum, edit) => sum + edit.delta, 0);
+    return { startLine: startLine + offset, endLine: endLine + offset };
+  }
 
-    // 4. 拼接内容
-    const newFileContent = newLines.join('\n');
+  /**
+   * 记录一次已应用的编辑。
+   * @param filePath - 文件路径。
+   * @param startLine - 初始起始行号。
+   * @param endLine - 初始结束行号（不包含）。
+   * @param newContent - 写入的新内容。
+   */
+  record(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    newContent: string
+  ): void {
+    const insertedLines =
+      newContent === '' ? 0 : newContent.split(/\r?\n/).length;
+    this.recordDelta(filePath, endLine, insertedLines - (endLine - startLine));
+  }
 
-    // 5. 写回文件
-    await fs.writeFile(filePath, newFileContent, encoding);
-  } catch (err) {
-    console.error('处理文件时发生错误:', err);
+  /**
+   * 记录一次已应用的编辑造成的行数变化，用于实际写入的内容与编辑操作不同的情况（例如部分接受）。
+   * @param filePath - 文件路径。
+   * @param endLine - 初始结束行号（不包含）。
+   * @param delta - 编辑后文件增加的行数（减少时为负数）。
+   */
+  recordDelta(filePath: string, endLine: number, delta: number): void {
+    const edits = this.appliedEdits.get(filePath) || [];
+    edits.push({ endLine, delta });
+    this.appliedEdits.set(filePath, edits);
   }
 }
 
@@ -104,38 +218,159 @@ export function replaceInFile(
   content: string,
   find?: string
 ): string {
-  let newContent = content;
+  return applyReplaceHunks(originalContent, [{ find, content }]);
+}
 
-  // 如果有 find，则替换；否则直接用 content
-  if (find) {
-    const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
-    const replacementString = content.replace(/(?<!\r)\n/g, lineEnding);
-    const adaptedFind = find.replace(/(?<!\r)\n/g, lineEnding);
-    const matchCount = originalContent.split(adaptedFind).length - 1;
+/**
+ * 替换块在原始内容中的定位结果。
+ */
+export interface ReplaceHunkMatch {
+  start: number;
+  end: number;
+  replacement: string;
+  /** 命中的匹配层级，覆写整个文件时为 exact。 */
+  tier: MatchTier;
+  similarity: number;
+}
 
-    if (matchCount === 0) {
-      throw new Error(`未找到匹配项: ${JSON.stringify(adaptedFind)}`);
+/**
+ * 在原始内容中定位每个替换块的位置，并检查唯一性和重叠。
+ * find 依次按精确、忽略空白、忽略缩进、模糊匹配（启用时）的层级查找，非精确匹配时替换内容会按匹配处重新缩进。
+ * @param originalContent - 文件的原始内容。
+ * @param hunks - 按顺序排列的替换块，find 为空表示覆写整个文件（仅允许单个替换块）。
+ * @param options - 查找选项。
+ * @returns 每个替换块的匹配位置（按出现顺序）及错误信息。
+ */
+export function locateReplaceHunks(
+  originalContent: string,
+  hunks: Array<{ find?: string; content: string }>,
+  options: FindMatchOptions = {}
+): {
+  matches: ReplaceHunkMatch[];
+  errors: string[];
+} {
+  const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
+  const matches: Array<ReplaceHunkMatch & { index: number }> = [];
+  const errors: string[] = [];
+  const label = (index: number) =>
+    hunks.length > 1 ? `替换块 ${index + 1}: ` : '';
+
+  hunks.forEach((hunk, index) => {
+    if (!hunk.find) {
+      if (hunks.length > 1) {
+        errors.push(`${label(index)}多段替换中每个替换块都必须提供 find`);
+      } else {
+        matches.push({
+          index,
+          start: 0,
+          end: originalContent.length,
+          replacement: hunk.content,
+          tier: 'exact',
+          similarity: 1
+        });
+      }
+      return;
+    }
+
+    const result = findMatches(originalContent, hunk.find, options);
+    if (result.matches.length === 0) {
+      errors.push(`${label(index)}未找到匹配项: ${JSON.stringify(hunk.find)}`);
+      return;
+    }
+    if (result.tier === 'fuzzy' && result.matches.length > 1) {
+      const [best, rival] = result.matches;
+      errors.push(
+        `${label(index)}模糊匹配不唯一 (相似度 ${formatSimilarity(best.similarity)} 与 ${formatSimilarity(rival.similarity)}): ${JSON.stringify(hunk.find)}，请指定更具体的匹配模式`
+      );
+      return;
+    }
+    if (result.matches.length > 1) {
+      errors.push(
+        `${label(index)}找到多个匹配项 (${result.matches.length}个, ${MATCH_TIER_LABELS[result.tier!]}): ${JSON.stringify(hunk.find)}，请指定更具体的匹配模式`
+      );
+      return;
     }
 
-    if (matchCount > 1) {
-      throw new Error(
-        `找到多个匹配项: ${JSON.stringify(adaptedFind)}，请指定更具体的匹配模式`
+    const [match] = result.matches;
+    matches.push({
+      index,
+      start: match.start,
+      end: match.end,
+      replacement: adaptReplacement(hunk.content, hunk.find, match, lineEnding),
+      tier: match.tier,
+      similarity: match.similarity
+    });
+  });
+
+  // 检查替换块之间是否重叠
+  const sorted = [...matches].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      errors.push(
+        `替换块 ${sorted[i].index + 1} 与替换块 ${sorted[i - 1].index + 1} 的匹配范围重叠`
       );
     }
+  }
+
+  return {
+    matches: sorted.map(({ index, ...match }) => match),
+    errors
+  };
+}
+
+/**
+ * 将相似度格式化为百分比。
+ */
+export function formatSimilarity(similarity: number): string {
+  return `${Math.round(similarity * 100)}%`;
+}
 
-    newContent = originalContent.replace(adaptedFind, replacementString);
+/**
+ * 将多个替换块一次性应用到内容上，任一替换块无效时不做任何修改。
+ * @param originalContent - 文件的原始内容。
+ * @param hunks - 按顺序排列的替换块。
+ * @param options - 查找选项。
+ * @returns 替换后的新内容。
+ * @throws {Error} 如果任一替换块无法唯一匹配或替换块之间重叠。
+ */
+export function applyReplaceHunks(
+  originalContent: string,
+  hunks: Array<{ find?: string; content: string }>,
+  options: FindMatchOptions = {}
+): string {
+  const { matches, errors } = locateReplaceHunks(
+    originalContent,
+    hunks,
+    options
+  );
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
   }
 
+  // 从后向前替换，保证前面的偏移量不受影响
+  let newContent = originalContent;
+  for (const match of [...matches].reverse()) {
+    newContent =
+      newContent.slice(0, match.start) +
+      match.replacement +
+      newContent.slice(match.end);
+  }
   return newContent;
 }
 
+/**
+ * 计算 find 在内容中的匹配数量（使用第一个有匹配项的匹配层级）。
+ * @param originalContent - 文件内容。
+ * @param find - 要查找的文本。
+ * @param options - 查找选项。
+ * @returns 匹配数量。
+ */
 export function computeFindMatchCount(
   originalContent: string,
-  find: string
+  find: string,
+  options: FindMatchOptions = {}
 ): number {
-  const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
-  const adaptedFind = find.replace(/(?<!\r)\n/g, lineEnding);
-  return originalContent.split(adaptedFind).length - 1;
+  return findMatches(originalContent, find, options).matches.length;
 }
 
 export function extractKeywordsFromPrompt(prompt: string): string[] {
@@ -379,18 +614,18 @@ export async function createFile(
 }
 
 /**
- * 在文件中替换内容：读取文件，应用替换，然后写回。
+ * 在文件中替换内容：读取文件，一次性应用所有替换块，然后写回。
  * @param filePath 文件路径
- * @param content 替换内容
- * @param find 要查找的字符串（可选，如果未提供则替换整个内容）
+ * @param hunks 按顺序排列的替换块（单个替换块的 find 为空时替换整个内容）
+ * @param options 查找选项
  */
 export async function writeFileWithReplace(
   filePath: string,
-  content: string,
-  find?: string
+  hunks: Array<{ find?: string; content: string }>,
+  options: FindMatchOptions = {}
 ): Promise<void> {
   const originalContent = await fs.readFile(filePath, 'utf-8');
-  const newContent = replaceInFile(originalContent, content, find);
+  const newContent = applyReplaceHunks(originalContent, hunks, options);
   await fs.writeFile(filePath, newContent, 'utf-8');
 }
 
@@ -415,6 +650,48 @@ export async function moveFile(
 export async function deleteFile(filePath: string): Promise<void> {
   await fs.unlink(filePath);
 }
+
+/**
+ * 原子地写入文件：先写入同目录下的临时文件再重命名，中断时不会留下写了一半的文件。
+ * @param filePath 文件路径
+ * @param data 文件内容
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Buffer
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * 计算内容的 SHA-256 哈希。
+ * @param content 文件内容
+ * @returns 十六进制哈希字符串
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * 计算文件当前内容的哈希。
+ * @param filePath 文件路径
+ * @returns 十六进制哈希字符串；文件不存在时返回 null
+ */
+export async function hashFile(filePath: string): Promise<string | null> {
+  try {
+    return hashContent(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
 /**
  * 查找最近的 .git 目录以确定 Git 仓库的根目录。
  * 如果未找到 .git 目录，则回退到最近的 package.json 所在目录。
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import { adaptReplacement, findMatches } from './find-matcher';
+
+const SOURCE = [
+  'function greet(name) {',
+  '  const message = "Hello, " + name;',
+  '  console.log(message);',
+  '  return message;',
+  '}',
+  ''
+].join('\n');
+
+describe('findMatches', () => {
+  it('prefers exact matches and reports every occurrence', () => {
+    const result = findMatches('a = 1;\nb = 2;\na = 1;\n', 'a = 1;');
+    expect(result.tier).toBe('exact');
+    expect(result.matches.map((m) => m.start)).toEqual([0, 14]);
+  });
+
+  it('matches CRLF content with an LF find exactly', () => {
+    const content = 'one\r\ntwo\r\nthree\r\n';
+    const result = findMatches(content, 'one\ntwo');
+    expect(result.tier).toBe('exact');
+    expect(content.slice(result.matches[0].start, result.matches[0].end)).toBe(
+      'one\r\ntwo'
+    );
+  });
+
+  it('ignores trailing and repeated whitespace', () => {
+    const result = findMatches(
+      SOURCE,
+      '  console.log(message);   \n  return   message;'
+    );
+    expect(result.tier).toBe('whitespace');
+    expect(result.matches).toHaveLength(1);
+    const [match] = result.matches;
+    expect(SOURCE.slice(match.start, match.end)).toBe(
+      '  console.log(message);\n  return message;'
+    );
+  });
+
+  it('ignores indentation and re-indents the replacement', () => {
+    const find = 'console.log(message);\nreturn message;';
+    const result = findMatches(SOURCE, find);
+    expect(result.tier).toBe('indentation');
+    const [match] = result.matches;
+    expect(match.indent).toBe('  ');
+    expect(
+      adaptReplacement(
+        'console.info(message);\nreturn message;',
+        find,
+        match,
+        '\n'
+      )
+    ).toBe('  console.info(message);\n  return message;');
+  });
+
+  it('only uses the fuzzy tier when it is enabled', () => {
+    const find = '  const mesage = "Hello, " + name;\n  console.log(mesage);';
+    expect(findMatches(SOURCE, find)).toEqual({ matches: [] });
+
+    const result = findMatches(SOURCE, find, { fuzzy: true });
+    expect(result.tier).toBe('fuzzy');
+    expect(result.matches).toHaveLength(1);
+    const [match] = result.matches;
+    expect(match.similarity).toBeGreaterThan(0.85);
+    expect(match.similarity).toBeLessThan(1);
+    expect(SOURCE.slice(match.start, match.end)).toBe(
+      '  const message = "Hello, " + name;\n  console.log(message);'
+    );
+  });
+
+  it('reports fuzzy matches as ambiguous when two windows are equally similar', () => {
+    const block = 'if (value > limit) {\n  value = limit;\n}';
+    const content = `${block}\nreset();\n${block}\n`;
+    const result = findMatches(
+      content,
+      'if (value > limits) {\n  value = limits;\n}',
+      { fuzzy: true }
+    );
+    expect(result.tier).toBe('fuzzy');
+    expect(result.matches).toHaveLength(2);
+  });
+
+  it('returns no match for unrelated text', () => {
+    expect(
+      findMatches(SOURCE, 'throw new Error("not implemented");', {
+        fuzzy: true
+      })
+    ).toEqual({ matches: [] });
+  });
+
+  it('reuses cached results for the same content, find and options', () => {
+    const find = 'return message;';
+    const first = findMatches(SOURCE, find);
+    expect(findMatches(SOURCE, find)).toBe(first);
+    expect(findMatches(`${SOURCE}\n`, find)).not.toBe(first);
+    expect(findMatches(SOURCE, find, { fuzzy: true })).not.toBe(first);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * find 文本的匹配层级，按严格程度递减排列。
+ * - exact: 精确匹配（已统一换行符）
+ * - whitespace: 忽略行尾空白并合并行内连续空白
+ * - indentation: 忽略缩进及行内空白差异
+ * - fuzzy: 按行窗口计算相似度的模糊匹配（需显式启用）
+ */
+export type MatchTier = 'exact' | 'whitespace' | 'indentation' | 'fuzzy';
+
+/**
+ * 各匹配层级的显示名称。
+ */
+export const MATCH_TIER_LABELS: Record<MatchTier, string> = {
+  exact: '精确匹配',
+  whitespace: '忽略空白差异',
+  indentation: '忽略缩进',
+  fuzzy: '模糊匹配'
+};
+
+/**
+ * 单个匹配结果，start/end 为原始内容中的字符偏移。
+ */
+export interface FindMatch {
+  start: number;
+  end: number;
+  tier: MatchTier;
+  /** 相似度 (0-1)，非模糊匹配时为 1。 */
+  similarity: number;
+  /** 行匹配时，匹配区域首个非空行的缩进。 */
+  indent?: string;
+  /** 行匹配时，find 开头的换行中未能被匹配范围覆盖的数量。 */
+  uncoveredLeadingBreaks?: number;
+  /** 行匹配时，find 末尾的换行中未能被匹配范围覆盖的数量。 */
+  uncoveredTrailingBreaks?: number;
+}
+
+/**
+ * find 文本的匹配结果。
+ */
+export interface FindMatchResult {
+  /** 命中的层级，未找到匹配时为 undefined。 */
+  tier?: MatchTier;
+  /** 该层级的所有匹配项；多于一个即表示匹配不唯一。 */
+  matches: FindMatch[];
+}
+
+/**
+ * 查找选项。
+ */
+export interface FindMatchOptions {
+  /** 是否启用模糊匹配层级，默认不启用。 */
+  fuzzy?: boolean;
+}
+
+/** 模糊匹配所需的最低相似度。 */
+const FUZZY_MIN_SIMILARITY = 0.85;
+/** 最佳与次佳模糊匹配的相似度差小于该值时视为不唯一。 */
+const FUZZY_AMBIGUITY_MARGIN = 0.05;
+/** 模糊匹配最多比较的行数（文件行数 × find 行数），防止大文件耗时过长。 */
+const FUZZY_MAX_COMPARISONS = 2_000_000;
+/** 匹配结果缓存最多保留的文件内容数量。 */
+const MATCH_CACHE_SIZE = 32;
+
+/**
+ * 最近的匹配结果：文件内容 → (是否模糊匹配 + find) → 结果。
+ * 同一计划会在验证、显示、预览、执行和逐块审查中对相同的内容反复查找，缓存避免重复扫描大文件。
+ */
+const matchCache = new Map<string, Map<string, FindMatchResult>>();
+
+interface ContentLine {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 行匹配时 find 首尾被去除的换行数量。
+ */
+interface FindEdges {
+  leadingBreaks: number;
+  trailingBreaks: number;
+}
+
+/**
+ * 将内容拆分为行，并记录每行在原始内容中的偏移（不含换行符）。
+ */
+function splitLinesWithOffsets(content: string): ContentLine[] {
+  const lines: ContentLine[] = [];
+  const regex = /\r?\n/g;
+  let lineStart = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    lines.push({
+      text: content.slice(lineStart, match.index),
+      start: lineStart,
+      end: match.index
+    });
+    lineStart = match.index + match[0].length;
+  }
+  lines.push({
+    text: content.slice(lineStart),
+    start: lineStart,
+    end: content.length
+  });
+  return lines;
+}
+
+/**
+ * 去除首尾的空行，并记录两端各去除了多少个换行。
+ */
+function trimBlankLines(lines: string[]): {
+  lines: string[];
+  edges: FindEdges;
+} {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return {
+    lines: lines.slice(start, end),
+    edges: { leadingBreaks: start, trailingBreaks: lines.length - end }
+  };
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^[ \t]*/)![0];
+}
+
+function normalizeWhitespace(line: string): string {
+  return leadingWhitespace(line) + line.trim().replace(/\s+/g, ' ');
+}
+
+function normalizeIndentation(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 基于字符二元组的 Dice 系数，计算两行文本的相似度。
+ */
+function lineSimilarity(a: string, b: string): number {
+  const x = normalizeIndentation(a);
+  const y = normalizeIndentation(b);
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const bigram = x.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const bigram = y.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (x.length - 1 + (y.length - 1));
+}
+
+function firstIndent(lines: string[]): string {
+  const line = lines.find((l) => l.trim());
+  return line ? leadingWhitespace(line) : '';
+}
+
+/**
+ * 将行窗口转换为匹配结果。find 首尾有换行时，匹配范围向两侧扩展到相应的换行（只跨过空行），
+ * 与精确匹配一样覆盖这些换行，避免替换后换行重复或缺失。
+ */
+function toLineMatch(
+  lines: ContentLine[],
+  startIndex: number,
+  length: number,
+  edges: FindEdges,
+  tier: MatchTier,
+  similarity: number
+): FindMatch {
+  const endIndex = startIndex + length - 1;
+  let leading = 0;
+  while (
+    leading < edges.leadingBreaks &&
+    startIndex - leading - 1 >= 0 &&
+    (leading === 0 || !lines[startIndex - leading].text.trim())
+  ) {
+    leading++;
+  }
+  let trailing = 0;
+  while (
+    trailing < edges.trailingBreaks &&
+    endIndex + trailing + 1 < lines.length &&
+    (trailing === 0 || !lines[endIndex + trailing].text.trim())
+  ) {
+    trailing++;
+  }
+
+  return {
+    start: lines[startIndex - leading][leading > 0 ? 'end' : 'start'],
+    end: lines[endIndex + trailing][trailing > 0 ? 'start' : 'end'],
+    tier,
+    similarity,
+    indent: firstIndent(
+      lines.slice(startIndex, endIndex + 1).map((l) => l.text)
+    ),
+    uncoveredLeadingBreaks: edges.leadingBreaks - leading,
+    uncoveredTrailingBreaks: edges.trailingBreaks - trailing
+  };
+}
+
+/**
+ * 按行查找所有规范化后完全相等的窗口。
+ */
+function findNormalizedMatches(
+  lines: ContentLine[],
+  findLines: string[],
+  edges: FindEdges,
+  normalize: (line: string) => string,
+  tier: MatchTier
+): FindMatch[] {
+  const target = findLines.map(normalize);
+  const normalizedLines = lines.map((l) => normalize(l.text));
+  const matches: FindMatch[] = [];
+  for (let i = 0; i + target.length <= lines.length; i++) {
+    let equal = true;
+    for (let j = 0; j < target.length; j++) {
+      if (normalizedLines[i + j] !== target[j]) {
+        equal = false;
+        break;
+      }
+    }
+    if (equal) {
+      matches.push(toLineMatch(lines, i, target.length, edges, tier, 1));
+      i += target.length - 1; // 与精确匹配一致，不计重叠的匹配
+    }
+  }
+  return matches;
+}
+
+/**
+ * 在固定大小的行窗口中查找相似度最高的匹配。
+ * 如果存在另一个不重叠且相似度接近的窗口，则同时返回两者，表示匹配不唯一。
+ */
+function findFuzzyMatches(
+  lines: ContentLine[],
+  findLines: string[],
+  edges: FindEdges
+): FindMatch[] {
+  const size = findLines.length;
+  if (size === 0 || size > lines.length) return [];
+  if (lines.length * size > FUZZY_MAX_COMPARISONS) return [];
+
+  const scores: Array<{ index: number; similarity: number }> = [];
+  for (let i = 0; i + size <= lines.length; i++) {
+    let total = 0;
+    for (let j = 0; j < size; j++) {
+      total += lineSimilarity(lines[i + j].text, findLines[j]);
+    }
+    const similarity = total / size;
+    if (similarity >= FUZZY_MIN_SIMILARITY) {
+      scores.push({ index: i, similarity });
+    }
+  }
+  if (scores.length === 0) return [];
+
+  scores.sort((a, b) => b.similarity - a.similarity);
+  const best = scores[0];
+  const rival = scores.find(
+    (s) =>
+      Math.abs(s.index - best.index) >= size &&
+      best.similarity - s.similarity < FUZZY_AMBIGUITY_MARGIN
+  );
+
+  const matches = [
+    toLineMatch(lines, best.index, size, edges, 'fuzzy', best.similarity)
+  ];
+  if (rival) {
+    matches.push(
+      toLineMatch(lines, rival.index, size, edges, 'fuzzy', rival.similarity)
+    );
+  }
+  return matches;
+}
+
+/**
+ * 按层级查找 find 文本：精确匹配 → 忽略空白差异 → 忽略缩进 → 模糊匹配（启用时）。
+ * 返回第一个有匹配项的层级及其全部匹配项。结果会被缓存，调用方不应修改。
+ * @param content - 文件内容。
+ * @param find - 要查找的文本。
+ * @param options - 查找选项。
+ * @returns 匹配结果。
+ */
+export function findMatches(
+  content: string,
+  find: string,
+  options: FindMatchOptions = {}
+): FindMatchResult {
+  const key = `${options.fuzzy ? 'fuzzy' : 'strict'}:${find}`;
+  let results = matchCache.get(content);
+  const cached = results?.get(key);
+  if (cached) return cached;
+
+  if (!results) {
+    if (matchCache.size >= MATCH_CACHE_SIZE) {
+      matchCache.delete(matchCache.keys().next().value!);
+    }
+    results = new Map();
+    matchCache.set(content, results);
+  }
+  const result = computeMatches(content, find, options.fuzzy ?? false);
+  results.set(key, result);
+  return result;
+}
+
+function computeMatches(
+  content: string,
+  find: string,
+  fuzzy: boolean
+): FindMatchResult {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const adaptedFind = find.replace(/(?<!\r)\n/g, lineEnding);
+
+  // 1. 精确匹配
+  const exactMatches: FindMatch[] = [];
+  let index = content.indexOf(adaptedFind);
+  while (adaptedFind && index !== -1) {
+    exactMatches.push({
+      start: index,
+      end: index + adaptedFind.length,
+      tier: 'exact',
+      similarity: 1
+    });
+    index = content.indexOf(adaptedFind, index + adaptedFind.length);
+  }
+  if (exactMatches.length > 0) {
+    return { tier: 'exact', matches: exactMatches };
+  }
+
+  const { lines: findLines, edges } = trimBlankLines(find.split(/\r?\n/));
+  if (findLines.length === 0) {
+    return { matches: [] };
+  }
+  const lines = splitLinesWithOffsets(content);
+
+  // 2. 忽略空白差异、3. 忽略缩进
+  const normalizedTiers: Array<[MatchTier, (line: string) => string]> = [
+    ['whitespace', normalizeWhitespace],
+    ['indentation', normalizeIndentation]
+  ];
+  for (const [tier, normalize] of normalizedTiers) {
+    const matches = findNormalizedMatches(
+      lines,
+      findLines,
+      edges,
+      normalize,
+      tier
+    );
+    if (matches.length > 0) {
+      return { tier, matches };
+    }
+  }
+
+  // 4. 模糊匹配
+  const fuzzyMatches = fuzzy ? findFuzzyMatches(lines, findLines, edges) : [];
+  if (fuzzyMatches.length > 0) {
+    return { tier: 'fuzzy', matches: fuzzyMatches };
+  }
+
+  return { matches: [] };
+}
+
+/**
+ * 根据匹配结果调整替换内容：非精确匹配时统一换行符，并在缩进不一致时按匹配处的缩进重新缩进。
+ * find 首尾的换行未能被匹配范围覆盖时（如文件末尾没有换行），替换内容首尾相应数量的空行也会被去除。
+ * @param content - 原始替换内容。
+ * @param find - 原始 find 文本。
+ * @param match - 匹配结果。
+ * @param lineEnding - 文件使用的换行符。
+ * @returns 调整后的替换内容。
+ */
+export function adaptReplacement(
+  content: string,
+  find: string,
+  match: FindMatch,
+  lineEnding: string
+): string {
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < (match.uncoveredLeadingBreaks ?? 0); i++) {
+    if (lines.length > 1 && !lines[0].trim()) lines.shift();
+  }
+  for (let i = 0; i < (match.uncoveredTrailingBreaks ?? 0); i++) {
+    if (lines.length > 1 && !lines[lines.length - 1].trim()) lines.pop();
+  }
+  if (match.indent !== undefined) {
+    const findIndent = firstIndent(find.split(/\r?\n/));
+    if (findIndent !== match.indent) {
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        lines[i] = lines[i].startsWith(findIndent)
+          ? match.indent + lines[i].slice(findIndent.length)
+          : lines[i];
+      }
+    }
+  }
+  return lines.join(lineEnding);
+}
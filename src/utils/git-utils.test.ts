@@ -0,0 +1,64 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { commitPaths, runGit } from './git-utils';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await fs.realpath(
+    await fs.mkdtemp(path.join(os.tmpdir(), 'mai-git-'))
+  );
+  await runGit(['init', '-q'], root);
+  await runGit(['config', 'user.name', 'test'], root);
+  await runGit(['config', 'user.email', 'test@example.com'], root);
+  await runGit(['config', 'commit.gpgsign', 'false'], root);
+  await fs.writeFile(path.join(root, 'a.txt'), 'a\n');
+  await fs.writeFile(path.join(root, 'old.txt'), 'old\n');
+  await runGit(['add', '.'], root);
+  await runGit(['commit', '-q', '-m', 'init'], root);
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('commitPaths', () => {
+  it('commits changes, deletions and new files but ignores paths that never existed', async () => {
+    await fs.writeFile(path.join(root, 'a.txt'), 'changed\n');
+    await fs.rm(path.join(root, 'old.txt'));
+    await fs.writeFile(path.join(root, 'new.txt'), 'new\n');
+
+    const sha = await commitPaths(
+      root,
+      ['a.txt', 'old.txt', 'new.txt', 'moved-away.txt'].map((p) =>
+        path.join(root, p)
+      ),
+      'plan'
+    );
+
+    expect(sha).toBe(await runGit(['rev-parse', 'HEAD'], root));
+    expect(await runGit(['status', '--porcelain'], root)).toBe('');
+  });
+
+  it('returns null when none of the paths has changes', async () => {
+    expect(
+      await commitPaths(root, [path.join(root, 'missing.txt')], 'plan')
+    ).toBeNull();
+    expect(
+      await commitPaths(root, [path.join(root, 'a.txt')], 'plan')
+    ).toBeNull();
+  });
+
+  it('unstages the paths when the commit fails', async () => {
+    await fs.writeFile(path.join(root, 'a.txt'), 'changed\n');
+
+    // 空提交信息会使 git commit 失败
+    await expect(
+      commitPaths(root, [path.join(root, 'a.txt')], '')
+    ).rejects.toThrow(/git commit 失败/);
+    expect(await runGit(['diff', '--cached', '--name-only'], root)).toBe('');
+  });
+});
@@ -0,0 +1,244 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 在指定目录中执行 git 命令。
+ * @param args - git 参数。
+ * @param cwd - 工作目录。
+ * @returns 去除首尾空白的标准输出。
+ * @throws {Error} 如果命令执行失败，错误信息包含 git 的标准错误输出。
+ */
+export async function runGit(
+  args: string[],
+  cwd: string = process.cwd()
+): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      maxBuffer: 10 * 1024 * 1024
+    });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(
+      `git ${args[0]} 失败: ${stderr || (error as Error).message}`
+    );
+  }
+}
+
+/**
+ * 获取目录所在 Git 工作树的根目录。
+ * 与 findGitRoot 不同，该函数通过 git 本身判断，不会回退到 package.json 所在目录。
+ * @param cwd - 起始目录。
+ * @returns 根目录；不在 Git 仓库中或未安装 git 时返回 null。
+ */
+export async function getGitRoot(
+  cwd: string = process.cwd()
+): Promise<string | null> {
+  try {
+    return path.resolve(await runGit(['rev-parse', '--show-toplevel'], cwd));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 检查工作区是否有未提交的更改（包括未跟踪的文件）。
+ * @param root - 仓库根目录。
+ */
+export async function hasUncommittedChanges(root: string): Promise<boolean> {
+  return (await runGit(['status', '--porcelain'], root)) !== '';
+}
+
+/**
+ * 获取有未提交更改的路径（包括未跟踪的文件，重命名时包括新旧路径）。
+ * @param root - 仓库根目录。
+ * @returns 绝对路径数组。
+ */
+export async function getUncommittedPaths(root: string): Promise<string[]> {
+  // v2 格式每项以类型字段开头，不受 runGit 去除首尾空白的影响
+  const output = await runGit(
+    ['status', '--porcelain=v2', '-z', '--untracked-files=all'],
+    root
+  );
+  const entries = output.split('\0').filter(Boolean);
+  const paths: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const fields = entries[i].split(' ');
+    // 路径前的字段数：普通更改 8 个，重命名/复制 9 个，冲突 10 个，未跟踪/忽略 1 个
+    const fieldCount =
+      { '1': 8, '2': 9, u: 10, '?': 1, '!': 1 }[fields[0]] ?? 1;
+    paths.push(path.resolve(root, fields.slice(fieldCount).join(' ')));
+    // 重命名和复制的下一项为原路径
+    if (fields[0] === '2') {
+      paths.push(path.resolve(root, entries[++i]));
+    }
+  }
+  return paths;
+}
+
+/**
+ * 获取当前分支名。
+ * @param root - 仓库根目录。
+ * @returns 分支名；处于分离头指针状态时返回 null。
+ */
+export async function getCurrentBranch(root: string): Promise<string | null> {
+  try {
+    return (
+      (await runGit(['symbolic-ref', '--short', '-q', 'HEAD'], root)) || null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 暂存工作区中所有未提交的更改（包括未跟踪的文件）。
+ * @param root - 仓库根目录。
+ * @param message - 暂存说明。
+ */
+export async function stashChanges(
+  root: string,
+  message: string
+): Promise<void> {
+  await runGit(['stash', 'push', '--include-untracked', '-m', message], root);
+}
+
+/**
+ * 恢复最近一次暂存的更改。冲突时暂存记录会被保留。
+ * @param root - 仓库根目录。
+ */
+export async function popStash(root: string): Promise<void> {
+  await runGit(['stash', 'pop'], root);
+}
+
+/**
+ * 基于当前 HEAD 创建并切换到新分支。
+ * @param root - 仓库根目录。
+ * @param branch - 新分支名。
+ */
+export async function createBranch(
+  root: string,
+  branch: string
+): Promise<void> {
+  await runGit(['checkout', '-b', branch], root);
+}
+
+/**
+ * 切换到已有分支。
+ * @param root - 仓库根目录。
+ * @param branch - 分支名。
+ */
+export async function switchBranch(
+  root: string,
+  branch: string
+): Promise<void> {
+  await runGit(['checkout', branch], root);
+}
+
+/**
+ * 强制删除分支。
+ * @param root - 仓库根目录。
+ * @param branch - 分支名。
+ */
+export async function deleteBranch(
+  root: string,
+  branch: string
+): Promise<void> {
+  await runGit(['branch', '-D', branch], root);
+}
+
+/**
+ * 将指定路径的更改（包括新建和删除）提交为一个 commit。
+ * 仓库外的路径，以及既不存在也未被跟踪的路径（例如在同一计划中新建后又移走的文件）会被忽略。
+ * 提交失败时会取消暂存这些路径。
+ * @param root - 仓库根目录。
+ * @param filePaths - 要提交的文件路径。
+ * @param message - 提交信息。
+ * @returns 新提交的 SHA；没有可提交的更改时返回 null。
+ * @throws {Error} 如果暂存或提交失败。
+ */
+export async function commitPaths(
+  root: string,
+  filePaths: string[],
+  message: string
+): Promise<string | null> {
+  const relativePaths = filePaths
+    .map((filePath) => path.relative(root, path.resolve(filePath)))
+    .filter((p) => p && !p.startsWith('..') && !path.isAbsolute(p));
+  if (relativePaths.length === 0) return null;
+
+  // 不匹配任何文件的路径会使 git add 失败
+  const tracked = new Set(
+    (await runGit(['ls-files', '-z', '--', ...relativePaths], root))
+      .split('\0')
+      .filter(Boolean)
+      .map((p) => path.normalize(p))
+  );
+  const addPaths: string[] = [];
+  for (const relativePath of relativePaths) {
+    if (
+      tracked.has(relativePath) ||
+      (await fs
+        .access(path.join(root, relativePath))
+        .then(() => true)
+        .catch(() => false))
+    ) {
+      addPaths.push(relativePath);
+    }
+  }
+  if (addPaths.length === 0) return null;
+
+  await runGit(['add', '--all', '--', ...addPaths], root);
+  try {
+    await runGit(['diff', '--cached', '--quiet'], root);
+    return null; // 暂存区无变化
+  } catch {
+    // 有已暂存的变化
+  }
+  try {
+    await runGit(['commit', '-m', message], root);
+  } catch (error) {
+    await runGit(['reset', '-q', '--', ...addPaths], root).catch(() => {});
+    throw error;
+  }
+  return runGit(['rev-parse', 'HEAD'], root);
+}
+
+/**
+ * 检查提交是否存在于仓库中。
+ * @param root - 仓库根目录。
+ * @param sha - 提交 SHA。
+ */
+export async function commitExists(
+  root: string,
+  sha: string
+): Promise<boolean> {
+  try {
+    await runGit(['cat-file', '-e', `${sha}^{commit}`], root);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 使用 git revert 创建撤销指定提交的新提交。失败时会中止 revert，保持工作区不变。
+ * @param root - 仓库根目录。
+ * @param sha - 要撤销的提交 SHA。
+ * @returns 撤销提交的 SHA。
+ * @throws {Error} 如果 revert 失败（例如存在冲突）。
+ */
+export async function revertCommit(root: string, sha: string): Promise<string> {
+  try {
+    await runGit(['revert', '--no-edit', sha], root);
+  } catch (error) {
+    await runGit(['revert', '--abort'], root).catch(() => {});
+    throw error;
+  }
+  return runGit(['rev-parse', 'HEAD'], root);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { mergeThreeWay } from './merge-utils';
+
+const BASE = 'one\ntwo\nthree\nfour\nfive\n';
+
+describe('mergeThreeWay', () => {
+  it('keeps non-overlapping changes from both sides', () => {
+    const ours = 'ONE\ntwo\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nthree\nfour\nFIVE\nsix\n';
+    expect(mergeThreeWay(BASE, ours, theirs)).toEqual({
+      content: 'ONE\ntwo\nthree\nfour\nFIVE\nsix\n',
+      conflicts: 0
+    });
+  });
+
+  it('takes identical changes once', () => {
+    const changed = 'one\nTWO\nthree\nfour\nfive\n';
+    expect(mergeThreeWay(BASE, changed, changed)).toEqual({
+      content: changed,
+      conflicts: 0
+    });
+  });
+
+  it('marks overlapping different changes as a conflict', () => {
+    const ours = 'one\ntwo\nTHREE\nfour\nfive\n';
+    const theirs = 'one\ntwo\n3\nfour\nfive\n';
+    expect(
+      mergeThreeWay(BASE, ours, theirs, { ours: 'current', theirs: 'redo' })
+    ).toEqual({
+      content: [
+        'one',
+        'two',
+        '<<<<<<< current',
+        'THREE',
+        '=======',
+        '3',
+        '>>>>>>> redo',
+        'four',
+        'five',
+        ''
+      ].join('\n'),
+      conflicts: 1
+    });
+  });
+
+  it('treats changes on adjacent lines as one conflicting region', () => {
+    const ours = 'one\nTWO\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nTHREE\nfour\nfive\n';
+    const { content, conflicts } = mergeThreeWay(BASE, ours, theirs);
+    expect(conflicts).toBe(1);
+    expect(content).toBe(
+      'one\n<<<<<<< ours\nTWO\nthree\n=======\ntwo\nTHREE\n>>>>>>> theirs\nfour\nfive\n'
+    );
+  });
+
+  it('counts every conflicting region', () => {
+    const ours = 'ONE\ntwo\nthree\nfour\nFIVE\n';
+    const theirs = '1\ntwo\nthree\nfour\n5\n';
+    expect(mergeThreeWay(BASE, ours, theirs).conflicts).toBe(2);
+  });
+
+  it('ends conflict sides with a newline when the file does not', () => {
+    const base = 'a\nb';
+    const { content, conflicts } = mergeThreeWay(base, 'a\nB', 'a\nc');
+    expect(conflicts).toBe(1);
+    expect(content).toBe('a\n<<<<<<< ours\nB\n=======\nc\n>>>>>>> theirs\n');
+  });
+});
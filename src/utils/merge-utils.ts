@@ -0,0 +1,167 @@
+import { diffArrays } from 'diff';
+
+/**
+ * 三方合并的结果。
+ */
+export interface MergeResult {
+  /** 合并后的内容，冲突处包含冲突标记。 */
+  content: string;
+  /** 冲突区域数量。 */
+  conflicts: number;
+}
+
+/**
+ * 相对于共同基础版本的一处更改：将 base[baseStart, baseEnd) 替换为 lines。
+ */
+interface LineChange {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+/**
+ * 将内容拆分为行，每行保留其换行符，以便无损拼接。
+ */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * 计算从 base 到 other 的所有更改。
+ */
+function computeChanges(base: string[], other: string[]): LineChange[] {
+  const changes: LineChange[] = [];
+  let baseIndex = 0;
+  let current: LineChange | null = null;
+
+  for (const part of diffArrays(base, other)) {
+    const count = part.value.length;
+    if (!part.added && !part.removed) {
+      current = null;
+      baseIndex += count;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      changes.push(current);
+    }
+    if (part.removed) {
+      baseIndex += count;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+  return changes;
+}
+
+/**
+ * 将一组更改应用到 base[start, end) 区间，返回该区间的新内容。
+ */
+function applyChanges(
+  base: string[],
+  start: number,
+  end: number,
+  changes: LineChange[]
+): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    result.push(...base.slice(position, change.baseStart), ...change.lines);
+    position = change.baseEnd;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+}
+
+/**
+ * 确保冲突块中的最后一行以换行符结尾，避免与冲突标记连在一起。
+ */
+function withTrailingNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last !== undefined && !last.endsWith('\n')
+    ? [...lines.slice(0, -1), `${last}\n`]
+    : lines;
+}
+
+/**
+ * 基于共同基础版本对两份修改进行按行的三方合并（diff3）。
+ * 两侧修改互不重叠时全部保留；重叠且内容不同时输出 git 风格的冲突标记。
+ * @param base - 共同基础版本。
+ * @param ours - 我方版本（通常为当前磁盘内容）。
+ * @param theirs - 对方版本（要合入的更改）。
+ * @param labels - 冲突标记中两侧的名称。
+ * @returns 合并结果。
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string } = {
+    ours: 'ours',
+    theirs: 'theirs'
+  }
+): MergeResult {
+  const baseLines = splitLines(base);
+  const oursChanges = computeChanges(baseLines, splitLines(ours));
+  const theirsChanges = computeChanges(baseLines, splitLines(theirs));
+
+  const result: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursChanges.length || j < theirsChanges.length) {
+    // 从最早开始的更改出发，收集所有与之重叠或相邻的更改
+    const takeOurs =
+      j >= theirsChanges.length ||
+      (i < oursChanges.length &&
+        oursChanges[i].baseStart <= theirsChanges[j].baseStart);
+    const first = takeOurs ? oursChanges[i++] : theirsChanges[j++];
+    const clusterOurs = takeOurs ? [first] : [];
+    const clusterTheirs = takeOurs ? [] : [first];
+    const start = first.baseStart;
+    let end = first.baseEnd;
+
+    let extended = true;
+    while (extended) {
+      extended = false;
+      if (i < oursChanges.length && oursChanges[i].baseStart <= end) {
+        end = Math.max(end, oursChanges[i].baseEnd);
+        clusterOurs.push(oursChanges[i++]);
+        extended = true;
+      }
+      if (j < theirsChanges.length && theirsChanges[j].baseStart <= end) {
+        end = Math.max(end, theirsChanges[j].baseEnd);
+        clusterTheirs.push(theirsChanges[j++]);
+        extended = true;
+      }
+    }
+
+    result.push(...baseLines.slice(position, start));
+    const oursRegion = applyChanges(baseLines, start, end, clusterOurs);
+    const theirsRegion = applyChanges(baseLines, start, end, clusterTheirs);
+
+    if (clusterTheirs.length === 0) {
+      result.push(...oursRegion);
+    } else if (clusterOurs.length === 0) {
+      result.push(...theirsRegion);
+    } else if (oursRegion.join('') === theirsRegion.join('')) {
+      result.push(...oursRegion);
+    } else {
+      conflicts++;
+      result.push(
+        `<<<<<<< ${labels.ours}\n`,
+        ...withTrailingNewline(oursRegion),
+        '=======\n',
+        ...withTrailingNewline(theirsRegion),
+        `>>>>>>> ${labels.theirs}\n`
+      );
+    }
+    position = end;
+  }
+
+  result.push(...baseLines.slice(position));
+  return { content: result.join(''), conflicts };
+}
@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelMessage } from 'ai';
+
+import { MAI_CONFIG_DIR_NAME, MOCK_DIR_NAME } from '../constants/mai-data';
+import { CliStyle } from './cli-style';
+import { hashContent, writeFileAtomic } from './file-utils';
+
+/** 内置的 mock 提供商名称，通过 -m mock/<name> 使用。 */
+export const MOCK_PROVIDER = 'mock';
+
+/** 本进程中各 mock 已按顺序返回的响应数量。 */
+const sequenceCounters = new Map<string, number>();
+
+/**
+ * 获取 mock 模型的样例名称。
+ * @param model - 完整模型名称（provider/model）。
+ * @returns 样例名称；不是 mock 模型时返回 undefined。
+ */
+export function getMockName(model: string): string | undefined {
+  return model.startsWith(`${MOCK_PROVIDER}/`)
+    ? model.slice(MOCK_PROVIDER.length + 1)
+    : undefined;
+}
+
+/**
+ * 获取 mock 样例的目录，默认为 ~/.mai/mocks/<name>，可通过环境变量 MAI_MOCK_DIR 指定上级目录。
+ */
+function getMockDir(name: string): string {
+  const baseDir =
+    process.env.MAI_MOCK_DIR ||
+    path.join(os.homedir(), MAI_CONFIG_DIR_NAME, MOCK_DIR_NAME);
+  return path.resolve(baseDir, name);
+}
+
+/**
+ * 计算请求的哈希，用于匹配样例。不包含系统提示词，修改系统提示词或配置不会使样例失效。
+ * @param messages - 发送给 AI 的消息数组。
+ * @returns 16 位十六进制哈希。
+ */
+export function hashMockRequest(messages: ModelMessage[]): string {
+  const conversation = messages
+    .filter((message) => message.role !== 'system')
+    .map((message) => ({ role: message.role, content: message.content }));
+  return hashContent(JSON.stringify(conversation)).slice(0, 16);
+}
+
+async function readFixture(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从样例中回放 AI 响应。先按请求哈希查找 <hash>.md，
+ * 找不到时按本进程中的请求顺序返回 sequence/<n>.md（n 从 1 开始）。
+ * 响应按行通过 onChunk 输出，模拟流式响应。
+ * @param name - 样例名称。
+ * @param messages - 发送给 AI 的消息数组。
+ * @param onChunk - 可选的增量回调。
+ * @returns 响应文本。
+ * @throws {Error} 如果没有匹配的样例。
+ */
+export async function replayMockResponse(
+  name: string,
+  messages: ModelMessage[],
+  onChunk?: (delta: string, accumulatedResponse: string) => void
+): Promise<string> {
+  const dir = getMockDir(name);
+  const hash = hashMockRequest(messages);
+  CliStyle.printDebug(`mock/${name}: 请求哈希 ${hash}`);
+
+  let text = await readFixture(path.join(dir, `${hash}.md`));
+  if (text === null) {
+    const index = (sequenceCounters.get(name) ?? 0) + 1;
+    text = await readFixture(path.join(dir, 'sequence', `${index}.md`));
+    if (text === null) {
+      throw new Error(
+        `mock/${name} 没有与请求匹配的样例: 请添加 ${path.join(dir, `${hash}.md`)} 或 ${path.join(dir, 'sequence', `${index}.md`)}，或设置 MAI_MOCK_RECORD=<模型> 录制真实响应`
+      );
+    }
+    sequenceCounters.set(name, index);
+  }
+
+  let accumulated = '';
+  for (const line of text.match(/[^\n]*\n|[^\n]+/g) ?? []) {
+    accumulated += line;
+    onChunk?.(line, accumulated);
+  }
+  return text.trim();
+}
+
+/**
+ * 将真实响应录制为样例，之后相同的请求会回放该响应。
+ * 默认按请求哈希录制为 <hash>.md；设置了环境变量 MAI_MOCK_RECORD_SEQUENCE 时，
+ * 按本进程中的请求顺序录制为 sequence/<n>.md（n 从 1 开始，覆盖已有的同名样例）。
+ * @param name - 样例名称。
+ * @param messages - 发送给 AI 的消息数组。
+ * @param text - 响应文本。
+ * @returns 样例文件路径。
+ */
+export async function recordMockResponse(
+  name: string,
+  messages: ModelMessage[],
+  text: string
+): Promise<string> {
+  let filePath: string;
+  if (process.env.MAI_MOCK_RECORD_SEQUENCE) {
+    const index = (sequenceCounters.get(name) ?? 0) + 1;
+    sequenceCounters.set(name, index);
+    filePath = path.join(getMockDir(name), 'sequence', `${index}.md`);
+  } else {
+    filePath = path.join(getMockDir(name), `${hashMockRequest(messages)}.md`);
+  }
+  await writeFileAtomic(filePath, text);
+  return filePath;
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const originalHome = process.env.HOME;
+const originalUserProfile = process.env.USERPROFILE;
+let home: string;
+
+/**
+ * 写入测试用的配置，并重新加载模块以清除配置缓存。
+ */
+async function loadWithConfig(config: object) {
+  await fs.mkdir(path.join(home, '.mai'), { recursive: true });
+  await fs.writeFile(
+    path.join(home, '.mai', 'config.json5'),
+    JSON.stringify(config)
+  );
+  vi.resetModules();
+  return import('./network');
+}
+
+beforeEach(async () => {
+  home = await fs.mkdtemp(path.join(os.tmpdir(), 'mai-network-'));
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+});
+
+afterEach(async () => {
+  process.env.HOME = originalHome;
+  process.env.USERPROFILE = originalUserProfile;
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+const providers = {
+  openai: {
+    type: 'openai',
+    models: ['large', 'small', 'unlimited'],
+    apiKeyEnv: 'OPENAI_API_KEY',
+    contextLimits: { large: 100000, small: 8000 }
+  }
+};
+
+describe('getRequestContextLimit', () => {
+  it('uses the smallest limit among the model and its fallbacks', async () => {
+    const { getRequestContextLimit } = await loadWithConfig({
+      providers,
+      fallbackModels: ['openai/unlimited', 'openai/small']
+    });
+
+    expect(await getRequestContextLimit('openai/large')).toBe(8000);
+  });
+
+  it('uses the model limit when no fallback has one', async () => {
+    const { getRequestContextLimit } = await loadWithConfig({
+      providers,
+      fallbackModels: ['openai/unlimited']
+    });
+
+    expect(await getRequestContextLimit('openai/large')).toBe(100000);
+    expect(await getRequestContextLimit('openai/unlimited')).toBeUndefined();
+  });
+
+  it('ignores fallbacks for mock models', async () => {
+    const { getRequestContextLimit } = await loadWithConfig({
+      providers,
+      fallbackModels: ['openai/small']
+    });
+
+    expect(await getRequestContextLimit('mock/demo')).toBeUndefined();
+  });
+});
@@ -1,14 +1,26 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
-import { generateText, ModelMessage, streamText } from 'ai';
-import * as fs from 'fs/promises';
+import { SharedV2ProviderOptions } from '@ai-sdk/provider';
+import { APICallError, LanguageModel, ModelMessage, streamText } from 'ai';
 import { CliStyle } from './cli-style';
 import {
   getApiEndpoint,
   getApiKey,
+  getContextLimit,
   getCurrentModel,
-  getCurrentModelName,
-  parseModel
+  getFallbackModels,
+  getMaxRetries,
+  getProviderConfig,
+  ProviderConfig,
+  ProviderType
 } from './config-manager';
+import {
+  getMockName,
+  recordMockResponse,
+  replayMockResponse
+} from './mock-provider';
 import { env } from 'process';
 import { setGlobalDispatcher, ProxyAgent } from 'undici';
 
@@ -21,44 +33,163 @@ if (env.https_proxy) {
   setGlobalDispatcher(dispatcher);
 }
 
+/** 默认请求超时（秒）：等待响应或两次数据之间的最长时间。 */
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+/** 两次重试之间等待时间的上限。 */
+const MAX_RETRY_DELAY_MS = 60000;
+
 /**
- * 延迟执行指定毫秒数。
+ * 延迟执行指定毫秒数，取消时提前结束。
  * @param ms - 等待的毫秒数。
+ * @param signal - 可选的取消信号。
  */
-const delay = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
 
 /**
- * 流式生成 AI 响应的文本。
- * @param messages - 发送给 AI 的消息数组。
- * @param options - 可选的生成选项。
- * @returns 生成的文本流。
- * @throws {Error} 如果 AI 请求失败。
+ * 根据提供商类型创建对应 SDK 的语言模型。
+ * @param type - 提供商类型。
+ * @param provider - 提供商名称。
+ * @param modelName - 模型名称。
+ * @param baseURL - API 地址，未配置时使用 SDK 的默认地址。
+ * @param apiKey - API 密钥。
+ * @returns 语言模型实例。
+ * @throws {Error} 如果 OpenAI 兼容的提供商没有配置 url。
  */
-export async function streamAiResponse(
-  messages: ModelMessage[],
-  options?: {
-    model?: string;
-    temperature?: number;
-    onChunk?: (delta: string, accumulatedResponse: string) => void;
+function createLanguageModel(
+  type: ProviderType,
+  provider: string,
+  modelName: string,
+  baseURL: string | undefined,
+  apiKey: string
+): LanguageModel {
+  switch (type) {
+    case 'openai':
+      // 使用 Chat Completions 接口，兼容自定义 url 的代理
+      return createOpenAI({ baseURL, apiKey }).chat(modelName);
+    case 'anthropic':
+      return createAnthropic({ baseURL, apiKey })(modelName);
+    case 'google':
+      return createGoogleGenerativeAI({ baseURL, apiKey })(modelName);
+    case 'ollama':
+    case 'openai-compatible':
+      if (!baseURL) {
+        throw new Error(`提供商 ${provider} 未配置 url`);
+      }
+      return createOpenAICompatible({ name: provider, baseURL, apiKey })(
+        modelName
+      );
+    default:
+      throw new Error(`不支持的提供商类型: ${type}`);
   }
-): Promise<string> {
-  const {
-    model = await getCurrentModel(),
-    temperature,
-    onChunk
-  } = options || {};
+}
+
+/**
+ * 构造提供商特有的请求选项，如思考预算。
+ * @returns 传给 AI SDK 的 providerOptions；没有特有选项时返回 undefined。
+ */
+function getProviderOptions(
+  type: ProviderType,
+  config: ProviderConfig
+): SharedV2ProviderOptions | undefined {
+  if (!config.thinkingBudget) return undefined;
+  if (type === 'anthropic') {
+    return {
+      anthropic: {
+        thinking: { type: 'enabled', budgetTokens: config.thinkingBudget }
+      }
+    };
+  }
+  if (type === 'google') {
+    return {
+      google: { thinkingConfig: { thinkingBudget: config.thinkingBudget } }
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 为 Anthropic 标记系统提示词的缓存断点，多次请求间复用相同的系统提示词。
+ */
+function withPromptCaching(
+  type: ProviderType,
+  messages: ModelMessage[]
+): ModelMessage[] {
+  if (type !== 'anthropic') return messages;
+  return messages.map((message) =>
+    message.role === 'system'
+      ? {
+          ...message,
+          providerOptions: {
+            anthropic: { cacheControl: { type: 'ephemeral' } }
+          }
+        }
+      : message
+  );
+}
 
-  const modelName = await getCurrentModelName();
-  if (!modelName) {
-    throw new Error('无法获取模型名称');
+/**
+ * 一次 AI 请求的 token 用量。
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * 单次流式请求，不重试。在超时时间内没有收到数据时中止请求。
+ * mock/<name> 模型从样例回放响应；设置了环境变量 MAI_MOCK_RECORD 时改为请求其指定的模型并录制为样例。
+ * @returns 完整的响应文本和 token 用量。
+ * @throws {Error} 如果请求失败、超时（name 为 TimeoutError）或被取消。
+ */
+async function streamOnce(
+  messages: ModelMessage[],
+  model: string,
+  temperature: number | undefined,
+  onChunk?: (delta: string, accumulatedResponse: string) => void,
+  abortSignal?: AbortSignal
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const mockName = getMockName(model);
+  if (mockName !== undefined) {
+    const recordModel = process.env.MAI_MOCK_RECORD;
+    if (!recordModel) {
+      return { text: await replayMockResponse(mockName, messages, onChunk) };
+    }
+    if (getMockName(recordModel) !== undefined) {
+      throw new Error(`MAI_MOCK_RECORD 不能是 mock 模型: ${recordModel}`);
+    }
+    const result = await streamOnce(
+      messages,
+      recordModel,
+      temperature,
+      onChunk,
+      abortSignal
+    );
+    const fixturePath = await recordMockResponse(
+      mockName,
+      messages,
+      result.text
+    );
+    console.log(
+      CliStyle.info(`\n已录制 ${recordModel} 的响应: ${fixturePath}`)
+    );
+    return result;
   }
 
   // 解析提供商信息
-  const parsedModel = await parseModel(model);
-  if (!parsedModel) {
-    throw new Error(`无效的模型格式: ${model}`);
-  }
+  const {
+    provider,
+    modelName,
+    config: providerConfig
+  } = await getProviderConfig(model);
+  const type = providerConfig.type ?? 'openai-compatible';
 
   // 获取 API 端点和密钥
   const apiEndpoint = await getApiEndpoint(model);
@@ -67,7 +198,8 @@ export async function streamAiResponse(
   CliStyle.printDebugContent(
     JSON.stringify(
       {
-        provider: parsedModel.provider,
+        provider,
+        type,
         model: modelName,
         endpoint: apiEndpoint,
         messages: messages.length
@@ -78,105 +210,218 @@ export async function streamAiResponse(
   );
   CliStyle.printDebug('----------------------------');
 
-  // 根据提供商创建对应的 AI SDK 客户端
-  const client = createOpenAICompatible({
-    name: parsedModel.provider,
-    baseURL: apiEndpoint,
-    apiKey: apiKey
-  });
+  // 超时或外部取消时中止请求
+  const timeoutSeconds = providerConfig.timeout ?? DEFAULT_TIMEOUT_SECONDS;
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  const resetTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutSeconds * 1000);
+  };
+  const onAbort = () => controller.abort();
+  abortSignal?.addEventListener('abort', onAbort);
+  resetTimer();
 
-  // 使用流式生成文本
-  const result = streamText({
-    model: client(modelName),
-    messages: messages,
-    temperature: temperature !== undefined ? temperature : 0.7
-  });
+  try {
+    // 根据提供商类型创建对应的 AI SDK 客户端，使用流式生成文本
+    const result = streamText({
+      model: createLanguageModel(
+        type,
+        provider,
+        modelName,
+        apiEndpoint,
+        apiKey
+      ),
+      messages: withPromptCaching(type, messages),
+      temperature: temperature !== undefined ? temperature : 0.7,
+      providerOptions: getProviderOptions(type, providerConfig),
+      abortSignal: controller.signal,
+      maxRetries: 0, // 由 streamAiResponse 统一重试
+      onError: () => {} // 错误通过 fullStream 抛出
+    });
+
+    // 初始化响应缓冲区
+    let fullResponse = '';
 
-  // 初始化响应缓冲区
-  let fullResponse = '';
+    CliStyle.printDebug('--- 开始接收流式响应 ---');
 
-  CliStyle.printDebug('--- 开始接收流式响应 ---');
+    // 逐个处理数据块
+    for await (const part of result.fullStream) {
+      resetTimer();
+      if (part.type === 'text-delta') {
+        // 累积响应内容并触发增量回调
+        fullResponse += part.text;
+        onChunk?.(part.text, fullResponse);
+      } else if (part.type === 'error') {
+        throw part.error;
+      } else if (part.type === 'abort') {
+        throw new Error('请求已中止');
+      }
+    }
+
+    const { inputTokens, outputTokens } = await result.usage;
+    const usage =
+      inputTokens !== undefined || outputTokens !== undefined
+        ? { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0 }
+        : undefined;
 
-  // 逐个处理文本块
-  for await (const delta of result.textStream) {
-    // 累积响应内容
-    fullResponse += delta;
+    CliStyle.printDebug('--- AI 流式响应结束 ---');
+    CliStyle.printDebugContent(fullResponse.trim());
+    CliStyle.printDebug('----------------------------');
 
-    // 触发增量回调
-    if (onChunk) {
-      onChunk(delta, fullResponse);
+    return { text: fullResponse.trim(), usage };
+  } catch (error) {
+    if (timedOut) {
+      const timeoutError = new Error(
+        `请求超时: ${timeoutSeconds} 秒内没有收到数据`
+      );
+      timeoutError.name = 'TimeoutError';
+      throw timeoutError;
     }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    abortSignal?.removeEventListener('abort', onAbort);
   }
+}
 
-  CliStyle.printDebug('--- AI 流式响应结束 ---');
-  CliStyle.printDebugContent(fullResponse.trim());
-  CliStyle.printDebug('----------------------------');
+/**
+ * 计算失败请求的重试等待时间。超时、限流 (429) 和服务端错误 (5xx) 等可重试的错误使用指数退避，
+ * 响应带有 Retry-After 时按其等待。
+ * @param error - 请求失败的错误。
+ * @param attempt - 已重试的次数。
+ * @returns 等待的毫秒数；不可重试时返回 undefined。
+ */
+function getRetryDelay(error: unknown, attempt: number): number | undefined {
+  const backoff = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return backoff;
+  }
+  if (!APICallError.isInstance(error) || !error.isRetryable) {
+    return undefined;
+  }
 
-  return fullResponse.trim();
+  const headers = error.responseHeaders ?? {};
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (retryAfterMs > 0) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    // 秒数或 HTTP 日期
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (ms >= 0) return Math.min(ms, MAX_RETRY_DELAY_MS);
+  }
+  return backoff;
 }
 
 /**
- * 从配置的AI模型获取响应，带有重试逻辑。
- * @param messages - 发送给AI的消息数组。
- * @param retries - 失败时重试次数。
- * @param model - 可选的模型名称。
- * @param temperature - 可选的temperature参数。
- * @param streamCallback - 可选的流式回调函数，用于处理实时响应。
- * @returns AI响应的字符串内容。
- * @throws {Error} 如果AI请求失败。
+ * 获取请求依次尝试的模型：指定的模型及配置中的备用模型；mock 模型没有备用模型。
+ * @param model - 完整模型名称。
+ * @returns 模型列表。
+ */
+async function getModelChain(model: string): Promise<string[]> {
+  if (getMockName(model) !== undefined) return [model];
+  return [
+    model,
+    ...(await getFallbackModels()).filter((fallback) => fallback !== model)
+  ];
+}
+
+/**
+ * 获取一次请求可用的上下文 token 上限。
+ * 请求可能回退到上下文更小的备用模型，因此取模型链中已配置上限的最小值。
+ * @param model - 完整模型名称，默认为当前模型。
+ * @returns token 上限；模型链中的模型均未配置时返回 undefined。
+ */
+export async function getRequestContextLimit(
+  model?: string
+): Promise<number | undefined> {
+  const limits: number[] = [];
+  for (const candidate of await getModelChain(
+    model ?? (await getCurrentModel())
+  )) {
+    const limit = await getContextLimit(candidate);
+    if (limit !== undefined) limits.push(limit);
+  }
+  return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+/**
+ * 流式生成 AI 响应的文本，按统一的请求策略处理失败：
+ * 超时、限流和服务端错误按指数退避重试（遵循 Retry-After），
+ * 仍然失败时依次尝试配置中的备用模型（fallbackModels）。mock 模型不切换备用模型，以免离线测试请求真实的 API。
+ * @param messages - 发送给 AI 的消息数组。
+ * @param options - 可选的生成选项。
+ *   onFinish 在响应结束后以实际使用的模型和 token 用量调用（提供商未返回用量时 usage 为 undefined）；
+ *   onRetry 在重试或切换模型前以提示信息调用，默认输出到控制台；abortSignal 用于取消请求。
+ * @returns 生成的文本。
+ * @throws {Error} 如果所有模型的请求都失败，或请求被取消。
  */
-export async function getAiResponse(
+export async function streamAiResponse(
   messages: ModelMessage[],
-  retries = 3,
-  model?: string,
-  temperature?: number,
-  streamCallback?: (chunk: string) => void
+  options?: {
+    model?: string;
+    temperature?: number;
+    onChunk?: (delta: string, accumulatedResponse: string) => void;
+    onFinish?: (result: { model: string; usage?: TokenUsage }) => void;
+    onRetry?: (message: string) => void;
+    abortSignal?: AbortSignal;
+  }
 ): Promise<string> {
-  const modelName = model || (await getCurrentModelName()); // Use specified model or fallback to current
+  const {
+    model = await getCurrentModel(),
+    temperature,
+    onChunk,
+    onFinish,
+    onRetry = (message: string) => console.log(CliStyle.warning(message)),
+    abortSignal
+  } = options || {};
 
-  CliStyle.printDebug('--- 原始AI请求负载 ---');
-  CliStyle.printDebugContent(
-    JSON.stringify(
-      {
-        model: modelName,
-        messages: messages.length,
-        temperature: temperature
-      },
-      null,
-      2
-    )
-  );
-  CliStyle.printDebug('-------------------------------------');
-
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await streamAiResponse(messages, {
-        model,
-        temperature,
-        onChunk: streamCallback
-      });
-
-      if (response && response.trim()) {
-        return response.trim();
-      } else {
-        throw new Error('无效的AI响应格式。');
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.error(
-        `第 ${i + 1} 次尝试（共 ${retries} 次）失败。`,
-        errorMessage
+  const maxRetries = await getMaxRetries();
+  const models = await getModelChain(model);
+
+  let lastError: unknown;
+  for (const [index, candidate] of models.entries()) {
+    if (index > 0) {
+      onRetry(
+        `模型 ${models[index - 1]} 请求失败: ${(lastError as Error).message}，改用备用模型 ${candidate}`
       );
-      if (i === retries - 1) {
-        console.error('最后一次尝试失败。中止。');
-        throw error;
+    }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { text, usage } = await streamOnce(
+          messages,
+          candidate,
+          temperature,
+          onChunk,
+          abortSignal
+        );
+        onFinish?.({ model: candidate, usage });
+        return text;
+      } catch (error) {
+        if (abortSignal?.aborted) {
+          throw new Error('请求已取消');
+        }
+        lastError = error;
+        const retryDelay = getRetryDelay(error, attempt);
+        if (retryDelay === undefined || attempt >= maxRetries) break;
+        onRetry(
+          `请求失败: ${(error as Error).message}，${(retryDelay / 1000).toFixed(1)} 秒后重试 (${attempt + 1}/${maxRetries})`
+        );
+        await delay(retryDelay, abortSignal);
+        if (abortSignal?.aborted) {
+          throw new Error('请求已取消');
+        }
       }
-      const backoffTime = 2 ** i;
-      console.warn(`将在 ${backoffTime} 秒后重试...`);
-      await delay(1000 * backoffTime);
     }
   }
-
-  throw new Error('AI请求在所有重试后失败。');
+  throw lastError;
 }
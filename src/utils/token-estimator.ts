@@ -0,0 +1,48 @@
+import { ModelMessage } from 'ai';
+
+/** 每条消息的格式开销（角色标记、分隔符等）。 */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** 中日韩文字及全角符号，通常每个字符约占 1 个 token。 */
+const WIDE_CHAR_REGEX = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * 粗略估算文本的 token 数，不依赖具体模型的分词器。
+ * 中日韩字符按每字 1 个 token 计，其余字符按每 4 个字符 1 个 token 计。
+ * @param text - 要估算的文本。
+ * @returns 估算的 token 数。
+ */
+export function estimateTokens(text: string): number {
+  const wide = text.match(WIDE_CHAR_REGEX)?.length ?? 0;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+/**
+ * 估算单条消息的 token 数，包括格式开销。
+ * @param message - 要估算的消息。
+ * @returns 估算的 token 数。
+ */
+export function estimateMessageTokens(message: ModelMessage): number {
+  const content = message.content;
+  const text =
+    typeof content === 'string'
+      ? content
+      : content
+          .map((part) =>
+            part.type === 'text' ? part.text : JSON.stringify(part)
+          )
+          .join('\n');
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * 估算消息列表的 token 总数。
+ * @param messages - 要估算的消息列表。
+ * @returns 估算的 token 数。
+ */
+export function estimateMessagesTokens(messages: ModelMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(message),
+    0
+  );
+}